@@ -5,8 +5,10 @@
  * with proper validation, error handling, and extensibility.
  */
 
+import { randomUUID } from 'node:crypto';
 import { 
   IReferralStorage, 
+  IReadOnlyReferralStorage,
   StorageConfig 
 } from './storage/interfaces.js';
 import { 
@@ -16,9 +18,31 @@ import {
   ReferralError, 
   ReferralErrorType,
   Result,
-  UserNode
+  UserNode,
+  ReferralRelationship,
+  ReferralEdge,
+  AddReferralOptions,
+  AddUserOptions,
+  BatchReferralOptions,
+  BatchReferralReport,
+  BatchEdgeFailure,
+  ReassignmentResult,
+  RemoveUserOptions,
+  RemovalReport,
+  TraversalOptions,
+  TraversalOrder,
+  TraversalEntry,
+  PaginatedTraversalOptions,
+  TraversalPage,
+  Condensation,
+  Clock,
+  ReferralRuleContext,
+  QuotaStatus,
+  QuotaWindowStatus
 } from './types/index.js';
-import { StorageFactory } from './storage/StorageFactory.js';
+import { StorageFactory, StorageType } from './storage/StorageFactory.js';
+import { condense, stronglyConnectedComponents } from './components.js';
+import { WriteLock } from './WriteLock.js';
 
 /**
  * Main ReferralNetwork class that manages referral relationships
@@ -28,12 +52,18 @@ import { StorageFactory } from './storage/StorageFactory.js';
  * - Pluggable storage backend
  * - Comprehensive error handling
  * - Performance optimizations
- * - Thread-safe operations
+ * - Serialized writes: each mutation validates and writes as one critical
+ *   section, while reads run concurrently
  */
 export class ReferralNetwork {
   private storage: IReferralStorage;
   private config: ReferralNetworkConfig;
   private isInitialized = false;
+  private readonly writeLock = new WriteLock();
+  // Identifies this instance and its state in pagination cursors; the
+  // revision increases with every change written through the network
+  private readonly epoch = randomUUID();
+  private revision = 0;
 
   constructor(
     config: Partial<ReferralNetworkConfig> = {},
@@ -51,15 +81,23 @@ export class ReferralNetwork {
 
   /**
    * Initialize the network with a custom storage backend
+   * 
+   * Backends that enforce referral rules themselves are set up with this
+   * network's allowMultipleReferrers and allowCycles unless the storage
+   * configuration overrides them.
    */
-  async initialize(storageConfig?: StorageConfig & { type: 'in-memory' | 'postgresql' | 'mongodb' | 'redis' }): Promise<void> {
+  async initialize(storageConfig?: StorageConfig & { type: StorageType }): Promise<void> {
     if (this.isInitialized) {
       return;
     }
 
     if (storageConfig) {
       const factory = new StorageFactory();
-      this.storage = factory.createStorage(storageConfig);
+      this.storage = factory.createStorage({
+        allowMultipleReferrers: this.config.allowMultipleReferrers,
+        allowCycles: this.config.allowCycles,
+        ...storageConfig
+      });
     }
 
     await this.storage.initialize();
@@ -79,39 +117,354 @@ export class ReferralNetwork {
   /**
    * Add a referral relationship between two users
    * 
+   * The referral is timestamped with the network clock unless a createdAt is
+   * given to backfill history. Users it creates join at the referral's time,
+   * and a referral that predates its referrer or its candidate joining is
+   * rejected as INVALID_INPUT.
+   * 
    * @param referrer - The user making the referral
    * @param candidate - The user being referred
+   * @param options - Referral timestamp
    * @returns Result indicating success or failure
    */
-  async addReferral(referrer: UserId, candidate: UserId): Promise<Result<void, ReferralError>> {
+  async addReferral(
+    referrer: UserId,
+    candidate: UserId,
+    options: AddReferralOptions = {}
+  ): Promise<Result<void, ReferralError>> {
+    const release = await this.writeLock.acquire();
+    try {
+      await this.ensureInitialized();
+
+      return await this.applyReferral(referrer, candidate, options.createdAt);
+    } catch (error) {
+      if (error instanceof ReferralError) {
+        // Backends that enforce referral rules themselves report violations directly
+        return { success: false, error };
+      }
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to add referral',
+          { referrer, candidate, originalError: error }
+        )
+      };
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Check a referral without adding it
+   * 
+   * Runs the same built-in constraints and custom rules as addReferral, but
+   * collects every violation instead of stopping at the first.
+   * 
+   * @param referrer - The user who would make the referral
+   * @param candidate - The user who would be referred
+   * @returns Every violation, in the order addReferral checks them; empty if
+   * the referral would be accepted
+   */
+  async canRefer(referrer: UserId, candidate: UserId): Promise<Result<ReferralError[], ReferralError>> {
     try {
       await this.ensureInitialized();
 
-      // Validate inputs
       const validationResult = this.validateReferralInput(referrer, candidate);
       if (!validationResult.success) {
         return validationResult;
       }
 
-      // Check constraints
-      const constraintResult = await this.validateReferralConstraints(referrer, candidate);
-      if (!constraintResult.success) {
-        return constraintResult;
+      const violations = await this.collectViolations(referrer, candidate, false);
+      return { success: true, data: violations };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to check referral',
+          { referrer, candidate, originalError: error }
+        )
+      };
+    }
+  }
+
+  /**
+   * Get how many more referrals a user may make under the configured quotas
+   * 
+   * Quotas count the referrals a user has made whose createdAt falls within
+   * each window, using the network's clock for the current time.
+   * 
+   * @param user - The referrer to report on
+   * @returns Remaining allowance per window, and when the user can refer
+   * again if a window is exhausted
+   */
+  async quotaStatus(user: UserId): Promise<Result<QuotaStatus, ReferralError>> {
+    try {
+      await this.ensureInitialized();
+
+      if (!this.isValidUserId(user)) {
+        return {
+          success: false,
+          error: new ReferralError(
+            ReferralErrorType.INVALID_INPUT,
+            'Invalid user ID',
+            { user }
+          )
+        };
+      }
+
+      const status = await this.evaluateQuotas(user, this.clock.now());
+      return { success: true, data: status };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to get quota status',
+          { user, originalError: error }
+        )
+      };
+    }
+  }
+
+  /**
+   * Add a user without a referrer
+   * 
+   * Users are normally created implicitly by addReferral; this is for users
+   * who join on their own, such as roots or isolated users in an import.
+   * Adding an existing user is a no-op.
+   * 
+   * @param user - The user to add
+   * @param options - Join timestamp
+   * @returns Result indicating success or failure
+   */
+  async addUser(user: UserId, options: AddUserOptions = {}): Promise<Result<void, ReferralError>> {
+    const release = await this.writeLock.acquire();
+    try {
+      await this.ensureInitialized();
+
+      if (!this.isValidUserId(user)) {
+        return {
+          success: false,
+          error: new ReferralError(
+            ReferralErrorType.INVALID_INPUT,
+            'Invalid user ID',
+            { user }
+          )
+        };
+      }
+
+      if (options.createdAt !== undefined && !isValidDate(options.createdAt)) {
+        return {
+          success: false,
+          error: new ReferralError(
+            ReferralErrorType.INVALID_INPUT,
+            'Invalid user timestamp',
+            { user, createdAt: options.createdAt }
+          )
+        };
+      }
+
+      if (await this.storage.userExists(user)) {
+        return { success: true, data: undefined };
       }
 
-      // Add the referral
-      await this.storage.addReferral(referrer, candidate);
+      if (this.config.maxNetworkSize) {
+        const userCount = await this.storage.getUserCount();
+        if (userCount >= this.config.maxNetworkSize) {
+          return {
+            success: false,
+            error: new ReferralError(
+              ReferralErrorType.NETWORK_SIZE_LIMIT,
+              'Network size limit reached',
+              { maxSize: this.config.maxNetworkSize, currentSize: userCount }
+            )
+          };
+        }
+      }
 
+      this.revision++;
+      await this.storage.addUser(user, options.createdAt ?? this.clock.now());
       return { success: true, data: undefined };
     } catch (error) {
       return {
         success: false,
         error: new ReferralError(
           ReferralErrorType.STORAGE_ERROR,
-          'Failed to add referral',
-          { referrer, candidate, originalError: error }
+          'Failed to add user',
+          { user, originalError: error }
+        )
+      };
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Add a batch of referral relationships
+   * 
+   * Edges are validated in order against the existing graph and against the
+   * edges before them in the batch, so cycles and double referrers formed
+   * within the batch are rejected too. Every edge is checked like an
+   * addReferral, so an edge that predates its referrer or its candidate
+   * joining is rejected as INVALID_INPUT. In 'atomic' mode (the default) the
+   * batch runs in a storage transaction and is rolled back if any edge is
+   * rejected; in 'best-effort' mode rejected edges are skipped.
+   * 
+   * @param edges - The referrals to add, in order
+   * @param options - Batch mode
+   * @returns Report of applied edges and per-edge failures
+   */
+  async addReferrals(
+    edges: ReferralEdge[],
+    options: BatchReferralOptions = {}
+  ): Promise<Result<BatchReferralReport, ReferralError>> {
+    const mode = options.mode ?? 'atomic';
+
+    if (!Array.isArray(edges) || (mode !== 'atomic' && mode !== 'best-effort')) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.INVALID_INPUT,
+          'Invalid referral batch',
+          { mode }
+        )
+      };
+    }
+
+    const release = await this.writeLock.acquire();
+    try {
+      await this.ensureInitialized();
+
+      const applyAll = async (): Promise<BatchReferralReport> => {
+        const failures: BatchEdgeFailure[] = [];
+        let applied = 0;
+
+        for (const [index, edge] of edges.entries()) {
+          const referrer = edge?.referrer;
+          const candidate = edge?.candidate;
+          const result = await this.applyReferral(referrer, candidate, edge?.createdAt);
+          if (result.success) {
+            applied++;
+          } else {
+            failures.push({ index, referrer, candidate, errorType: result.error.type, error: result.error });
+          }
+        }
+
+        if (mode === 'atomic' && failures.length > 0) {
+          throw new BatchRejection({ mode, committed: false, applied: 0, failures });
+        }
+
+        return { mode, committed: true, applied, failures };
+      };
+
+      if (mode === 'best-effort') {
+        return { success: true, data: await applyAll() };
+      }
+
+      try {
+        return { success: true, data: await this.storage.runInTransaction(applyAll) };
+      } catch (error) {
+        if (error instanceof BatchRejection) {
+          return { success: true, data: error.report };
+        }
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof ReferralError) {
+        // Backends that enforce referral rules themselves report violations directly
+        return { success: false, error };
+      }
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to add referrals',
+          { edgeCount: edges.length, originalError: error }
+        )
+      };
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Move a user, together with its whole subtree, to a different referrer
+   * 
+   * Every referral to the user is removed and the new one added in a single
+   * storage transaction, so a user with several referrers ends up with only
+   * the new one. Moving a user under one of its own descendants is rejected
+   * with CYCLE_DETECTED, and the new referrer's referral limit applies.
+   * 
+   * @param candidate - The user to move
+   * @param newReferrer - The new referrer, or null to make the user a root
+   * @returns The previous referrers and new referrer of the candidate
+   */
+  async reassignReferrer(
+    candidate: UserId,
+    newReferrer: UserId | null
+  ): Promise<Result<ReassignmentResult, ReferralError>> {
+    const release = await this.writeLock.acquire();
+    try {
+      await this.ensureInitialized();
+
+      const usersResult = await this.validateExistingUsers(
+        newReferrer === null ? [candidate] : [candidate, newReferrer]
+      );
+      if (!usersResult.success) {
+        return usersResult;
+      }
+
+      const previousReferrers = await this.storage.getParents(candidate);
+      const data: ReassignmentResult = {
+        candidate,
+        previousReferrer: previousReferrers[0] ?? null,
+        previousReferrers,
+        newReferrer
+      };
+
+      // A referral the candidate already has from the new referrer is kept
+      const keepsReferral = newReferrer !== null && previousReferrers.includes(newReferrer);
+      const removed = previousReferrers.filter(referrer => referrer !== newReferrer);
+      if (removed.length === 0 && (newReferrer === null || keepsReferral)) {
+        return { success: true, data };
+      }
+
+      if (newReferrer !== null && !keepsReferral) {
+        const constraintResult = await this.validateReassignment(candidate, newReferrer);
+        if (!constraintResult.success) {
+          return constraintResult;
+        }
+      }
+
+      const now = this.clock.now();
+      this.revision++;
+      await this.storage.runInTransaction(async () => {
+        for (const referrer of removed) {
+          await this.storage.removeReferral(referrer, candidate, now);
+        }
+        if (newReferrer !== null && !keepsReferral) {
+          await this.storage.addReferral(newReferrer, candidate, now);
+        }
+      });
+
+      return { success: true, data };
+    } catch (error) {
+      if (error instanceof ReferralError) {
+        // Backends that enforce referral rules themselves report violations directly
+        return { success: false, error };
+      }
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to reassign referrer',
+          { candidate, newReferrer, originalError: error }
         )
       };
+    } finally {
+      release();
     }
   }
 
@@ -186,34 +539,123 @@ export class ReferralNetwork {
   }
 
   /**
-   * Get the parent (referrer) of a user
+   * Stream the descendants of a user
    * 
-   * @param user - The user to get the parent for
-   * @returns The parent user ID or null if no parent exists
+   * Unlike allReferrals, the descendants are produced one at a time, so
+   * callers can stop early or bound the traversal by depth and count.
+   * 
+   * @param user - The user whose referrals to traverse
+   * @param options - Traversal order (default: 'bfs'), maximum depth and entry limit
+   * @returns Async iterable of descendants with their depth and referrer
+   * @throws ReferralError with INVALID_INPUT for invalid arguments
    */
-  async getParent(user: UserId): Promise<Result<UserId | null, ReferralError>> {
+  async *traverseReferrals(user: UserId, options: TraversalOptions = {}): AsyncIterable<TraversalEntry> {
+    await this.ensureInitialized();
+
+    const validationResult = this.validateTraversalInput(user, options);
+    if (!validationResult.success) {
+      throw validationResult.error;
+    }
+
+    yield* this.storage.traverseReferrals(user, options);
+  }
+
+  /**
+   * Get one page of a user's descendants
+   * 
+   * The cursor holds the traversal's pending frontier, so each page resumes
+   * where the previous one stopped at a cost proportional to the page. A
+   * cursor is only valid until the next change written through this
+   * network; a stale cursor, or one from a traversal with other options, is
+   * rejected as INVALID_INPUT instead of skipping or repeating users.
+   * 
+   * @param user - The user whose referrals to traverse
+   * @param options - Traversal order, maximum depth, page size and cursor
+   * @returns The page of descendants and the cursor for the next page
+   */
+  async referralsPage(
+    user: UserId,
+    options: PaginatedTraversalOptions = {}
+  ): Promise<Result<TraversalPage, ReferralError>> {
     try {
       await this.ensureInitialized();
 
-      if (!this.isValidUserId(user)) {
+      const { cursor, pageSize = 100, ...traversalOptions } = options;
+      const validationResult = this.validateTraversalInput(user, traversalOptions);
+      if (!validationResult.success) {
+        return validationResult;
+      }
+
+      if (!Number.isInteger(pageSize) || pageSize < 1) {
         return {
           success: false,
           error: new ReferralError(
             ReferralErrorType.INVALID_INPUT,
-            'Invalid user ID',
-            { user }
+            'Page size must be a positive integer',
+            { pageSize }
           )
         };
       }
 
-      const parent = await this.storage.getParent(user);
-      return { success: true, data: parent };
+      const order = traversalOptions.order ?? 'bfs';
+      const maxDepth = traversalOptions.maxDepth ?? Infinity;
+      let state: TraversalCursorState;
+      if (cursor === undefined) {
+        state = {
+          epoch: this.epoch,
+          revision: this.revision,
+          user,
+          order,
+          maxDepth: maxDepth === Infinity ? null : maxDepth,
+          frontier: maxDepth >= 1 ? [[user, 0, 1]] : [],
+          seen: []
+        };
+      } else {
+        const decoded = decodeTraversalCursor(cursor);
+        if (decoded === null) {
+          return {
+            success: false,
+            error: new ReferralError(
+              ReferralErrorType.INVALID_INPUT,
+              'Invalid cursor',
+              { cursor }
+            )
+          };
+        }
+        if (decoded.user !== user || decoded.order !== order || (decoded.maxDepth ?? Infinity) !== maxDepth) {
+          return {
+            success: false,
+            error: new ReferralError(
+              ReferralErrorType.INVALID_INPUT,
+              'Cursor belongs to a different traversal',
+              { user, order, maxDepth }
+            )
+          };
+        }
+        if (decoded.epoch !== this.epoch || decoded.revision !== this.revision) {
+          return {
+            success: false,
+            error: new ReferralError(
+              ReferralErrorType.INVALID_INPUT,
+              'Cursor is stale: the network has changed since it was issued',
+              { user }
+            )
+          };
+        }
+        state = decoded;
+      }
+
+      const entries = await this.continueTraversal(state, pageSize);
+      return {
+        success: true,
+        data: { entries, nextCursor: state.frontier.length > 0 ? encodeTraversalCursor(state) : null }
+      };
     } catch (error) {
       return {
         success: false,
         error: new ReferralError(
           ReferralErrorType.STORAGE_ERROR,
-          'Failed to get parent',
+          'Failed to get referrals page',
           { user, originalError: error }
         )
       };
@@ -221,45 +663,60 @@ export class ReferralNetwork {
   }
 
   /**
-   * Get all users in the network
+   * Get the reach (number of distinct descendants) of a user
    * 
-   * @returns Array of all users
+   * @param user - The user to get the reach for
+   * @returns The number of direct and indirect referrals of the user
    */
-  async getAllUsers(): Promise<Result<UserNode[], ReferralError>> {
+  async reachOf(user: UserId): Promise<Result<number, ReferralError>> {
     try {
       await this.ensureInitialized();
 
-      const users = await this.storage.getAllUsers();
-      return { success: true, data: users };
+      if (!this.isValidUserId(user)) {
+        return {
+          success: false,
+          error: new ReferralError(
+            ReferralErrorType.INVALID_INPUT,
+            'Invalid user ID',
+            { user }
+          )
+        };
+      }
+
+      const reach = await this.storage.getReach(user);
+      return { success: true, data: reach };
     } catch (error) {
       return {
         success: false,
         error: new ReferralError(
           ReferralErrorType.STORAGE_ERROR,
-          'Failed to get all users',
-          { originalError: error }
+          'Failed to get reach',
+          { user, originalError: error }
         )
       };
     }
   }
 
   /**
-   * Get network statistics
+   * Get the reach of every user in the network
    * 
-   * @returns Network statistics
+   * A user is never counted as its own descendant, so every member of a
+   * cycle reaches the other members plus everything below the cycle.
+   * 
+   * @returns Map from user ID to number of distinct descendants
    */
-  async getNetworkStats(): Promise<Result<NetworkStats, ReferralError>> {
+  async reachScores(): Promise<Result<Map<UserId, number>, ReferralError>> {
     try {
       await this.ensureInitialized();
 
-      const stats = await this.storage.getNetworkStats();
-      return { success: true, data: stats };
+      const scores = await this.storage.getReachScores();
+      return { success: true, data: scores };
     } catch (error) {
       return {
         success: false,
         error: new ReferralError(
           ReferralErrorType.STORAGE_ERROR,
-          'Failed to get network stats',
+          'Failed to get reach scores',
           { originalError: error }
         )
       };
@@ -267,12 +724,12 @@ export class ReferralNetwork {
   }
 
   /**
-   * Check if a user exists in the network
+   * Get the parent (first referrer) of a user
    * 
-   * @param user - The user to check
-   * @returns True if the user exists, false otherwise
+   * @param user - The user to get the parent for
+   * @returns The parent user ID or null if no parent exists
    */
-  async userExists(user: UserId): Promise<Result<boolean, ReferralError>> {
+  async getParent(user: UserId): Promise<Result<UserId | null, ReferralError>> {
     try {
       await this.ensureInitialized();
 
@@ -287,14 +744,14 @@ export class ReferralNetwork {
         };
       }
 
-      const exists = await this.storage.userExists(user);
-      return { success: true, data: exists };
+      const parent = await this.storage.getParent(user);
+      return { success: true, data: parent };
     } catch (error) {
       return {
         success: false,
         error: new ReferralError(
           ReferralErrorType.STORAGE_ERROR,
-          'Failed to check user existence',
+          'Failed to get parent',
           { user, originalError: error }
         )
       };
@@ -302,12 +759,15 @@ export class ReferralNetwork {
   }
 
   /**
-   * Remove a user and all their relationships
+   * Get every referrer of a user
    * 
-   * @param user - The user to remove
-   * @returns Result indicating success or failure
+   * With allowMultipleReferrers a user can be referred by several users, for
+   * example in co-referral campaigns; otherwise this holds at most one user.
+   * 
+   * @param user - The user to get the referrers for
+   * @returns Referrer IDs in the order the referrals were added
    */
-  async removeUser(user: UserId): Promise<Result<void, ReferralError>> {
+  async getParents(user: UserId): Promise<Result<UserId[], ReferralError>> {
     try {
       await this.ensureInitialized();
 
@@ -322,14 +782,14 @@ export class ReferralNetwork {
         };
       }
 
-      await this.storage.removeUser(user);
-      return { success: true, data: undefined };
+      const parents = await this.storage.getParents(user);
+      return { success: true, data: parents };
     } catch (error) {
       return {
         success: false,
         error: new ReferralError(
           ReferralErrorType.STORAGE_ERROR,
-          'Failed to remove user',
+          'Failed to get parents',
           { user, originalError: error }
         )
       };
@@ -337,47 +797,558 @@ export class ReferralNetwork {
   }
 
   /**
-   * Clear all data from the network
+   * Get the ancestors of a user
    * 
-   * @returns Result indicating success or failure
+   * @param user - The user to get the ancestors for
+   * @returns Distinct user IDs, nearest first; with a single referrer per
+   * user, the chain from the user's referrer up to the root
    */
-  async clear(): Promise<Result<void, ReferralError>> {
+  async ancestors(user: UserId): Promise<Result<UserId[], ReferralError>> {
     try {
       await this.ensureInitialized();
 
-      await this.storage.clear();
-      return { success: true, data: undefined };
+      const usersResult = await this.validateExistingUsers([user]);
+      if (!usersResult.success) {
+        return usersResult;
+      }
+
+      const ancestors = await this.storage.getAncestors(user);
+      return { success: true, data: ancestors };
     } catch (error) {
       return {
         success: false,
         error: new ReferralError(
           ReferralErrorType.STORAGE_ERROR,
-          'Failed to clear network',
-          { originalError: error }
+          'Failed to get ancestors',
+          { user, originalError: error }
         )
       };
     }
   }
 
   /**
-   * Update network configuration
+   * Get the depth of a user in its referral tree
    * 
-   * @param newConfig - New configuration options
+   * @param user - The user to get the depth for
+   * @returns Fewest referrals between a root and the user (0 for roots)
    */
-  updateConfig(newConfig: Partial<ReferralNetworkConfig>): void {
-    this.config = { ...this.config, ...newConfig };
-  }
+  async depthOf(user: UserId): Promise<Result<number, ReferralError>> {
+    try {
+      await this.ensureInitialized();
 
-  /**
-   * Get current network configuration
-   * 
-   * @returns Current configuration
-   */
-  getConfig(): ReferralNetworkConfig {
-    return { ...this.config };
-  }
+      const usersResult = await this.validateExistingUsers([user]);
+      if (!usersResult.success) {
+        return usersResult;
+      }
 
-  // Private helper methods
+      const depth = await this.storage.getDepth(user);
+      return { success: true, data: depth };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to get depth',
+          { user, originalError: error }
+        )
+      };
+    }
+  }
+
+  /**
+   * Get the root of the referral tree containing a user
+   * 
+   * @param user - The user to get the root for
+   * @returns The nearest ancestor without a referrer, or the user itself if it has none
+   */
+  async rootOf(user: UserId): Promise<Result<UserId, ReferralError>> {
+    try {
+      await this.ensureInitialized();
+
+      const usersResult = await this.validateExistingUsers([user]);
+      if (!usersResult.success) {
+        return usersResult;
+      }
+
+      const root = await this.storage.getRoot(user);
+      return { success: true, data: root };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to get root',
+          { user, originalError: error }
+        )
+      };
+    }
+  }
+
+  /**
+   * Get the lowest common referrer of two users
+   * 
+   * A user counts as its own referrer here, so if one user is an ancestor of
+   * the other, that user is returned.
+   * 
+   * @param a - The first user
+   * @param b - The second user
+   * @returns The shared ancestor nearest to `b`, or null if the users are in different trees
+   */
+  async lowestCommonReferrer(a: UserId, b: UserId): Promise<Result<UserId | null, ReferralError>> {
+    try {
+      await this.ensureInitialized();
+
+      const usersResult = await this.validateExistingUsers([a, b]);
+      if (!usersResult.success) {
+        return usersResult;
+      }
+
+      const referrer = await this.storage.getLowestCommonAncestor(a, b);
+      return { success: true, data: referrer };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to get lowest common referrer',
+          { a, b, originalError: error }
+        )
+      };
+    }
+  }
+
+  /**
+   * Get the chain of referrals leading from one user down to another
+   * 
+   * @param from - The upstream user
+   * @param to - The downstream user
+   * @returns The shortest chain of user IDs from `from` to `to` inclusive, or null if
+   * `from` is not an ancestor of `to`
+   */
+  async referralPath(from: UserId, to: UserId): Promise<Result<UserId[] | null, ReferralError>> {
+    try {
+      await this.ensureInitialized();
+
+      const usersResult = await this.validateExistingUsers([from, to]);
+      if (!usersResult.success) {
+        return usersResult;
+      }
+
+      const path = await this.storage.getReferralPath(from, to);
+      return { success: true, data: path };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to get referral path',
+          { from, to, originalError: error }
+        )
+      };
+    }
+  }
+
+  /**
+   * Get all users in the network
+   * 
+   * @returns Array of all users
+   */
+  async getAllUsers(): Promise<Result<UserNode[], ReferralError>> {
+    try {
+      await this.ensureInitialized();
+
+      const users = await this.storage.getAllUsers();
+      return { success: true, data: users };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to get all users',
+          { originalError: error }
+        )
+      };
+    }
+  }
+
+  /**
+   * Get all referral relationships in the network
+   * 
+   * @returns Array of referrer → candidate relationships with their timestamps
+   */
+  async getAllReferralRelationships(): Promise<Result<ReferralRelationship[], ReferralError>> {
+    try {
+      await this.ensureInitialized();
+
+      const relationships = await this.storage.getAllReferralRelationships();
+      return { success: true, data: relationships };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to get referral relationships',
+          { originalError: error }
+        )
+      };
+    }
+  }
+
+  /**
+   * Get network statistics
+   * 
+   * @returns Network statistics
+   */
+  async getNetworkStats(): Promise<Result<NetworkStats, ReferralError>> {
+    try {
+      await this.ensureInitialized();
+
+      const stats = await this.storage.getNetworkStats();
+      return { success: true, data: stats };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to get network stats',
+          { originalError: error }
+        )
+      };
+    }
+  }
+
+  /**
+   * Get the strongly connected components of the network
+   * 
+   * Users in the same component can each reach the others through referrals.
+   * Without cycles every user is a component of its own.
+   * 
+   * @returns Components in reverse topological order: every component
+   * reachable from a component is listed before it
+   */
+  async stronglyConnectedComponents(): Promise<Result<UserId[][], ReferralError>> {
+    try {
+      await this.ensureInitialized();
+
+      const users = await this.storage.getAllUsers();
+      const referralsOf = new Map(users.map(node => [node.userId, node.directReferrals]));
+      const components = stronglyConnectedComponents(referralsOf.keys(), userId => referralsOf.get(userId) ?? []);
+      return { success: true, data: components };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to get strongly connected components',
+          { originalError: error }
+        )
+      };
+    }
+  }
+
+  /**
+   * Get the condensation of the network, with every strongly connected
+   * component collapsed into a single node
+   * 
+   * @returns The components and the DAG of referrals between them
+   */
+  async condensation(): Promise<Result<Condensation, ReferralError>> {
+    try {
+      await this.ensureInitialized();
+
+      const users = await this.storage.getAllUsers();
+      const referralsOf = new Map(users.map(node => [node.userId, node.directReferrals]));
+      const condensation = condense(referralsOf.keys(), userId => referralsOf.get(userId) ?? []);
+      return { success: true, data: condensation };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to get condensation',
+          { originalError: error }
+        )
+      };
+    }
+  }
+
+  /**
+   * View the network as it was at a past date
+   * 
+   * The view holds the users and referrals created on or before `date` and
+   * not removed by then, so users deleted later still appear. It is a
+   * snapshot: later changes to this network do not show up in it, and it
+   * only exposes query methods, so it cannot be changed either.
+   * 
+   * @param date - The moment to view the network at
+   * @returns A read-only view supporting the same queries as the network
+   */
+  async asOf(date: Date): Promise<Result<ReferralNetworkView, ReferralError>> {
+    try {
+      await this.ensureInitialized();
+
+      if (!isValidDate(date)) {
+        return {
+          success: false,
+          error: new ReferralError(
+            ReferralErrorType.INVALID_INPUT,
+            'Invalid date',
+            { date }
+          )
+        };
+      }
+
+      const time = date.getTime();
+      const existedAt = (entry: { createdAt: Date; removedAt?: Date }): boolean =>
+        entry.createdAt.getTime() <= time && (entry.removedAt === undefined || entry.removedAt.getTime() > time);
+
+      const snapshot = StorageFactory.createInMemoryStorage();
+      await snapshot.initialize();
+      for (const user of await this.storage.getUserHistory()) {
+        if (existedAt(user)) {
+          await snapshot.addUser(user.userId, user.createdAt);
+        }
+      }
+
+      // Oldest first, so each user's first referrer stays its parent; a
+      // backfilled referral can predate its users, and then waits for them
+      const referrals = (await this.storage.getReferralHistory())
+        .filter(existedAt)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      for (const referral of referrals) {
+        if (await snapshot.userExists(referral.referrer) && await snapshot.userExists(referral.candidate)) {
+          await snapshot.addReferral(referral.referrer, referral.candidate, referral.createdAt);
+        }
+      }
+
+      const view = new ReferralNetwork(this.getConfig(), snapshot);
+      await view.initialize();
+      return { success: true, data: queryOnlyView(view) };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to build historical view',
+          { date, originalError: error }
+        )
+      };
+    }
+  }
+
+  /**
+   * Check if a user exists in the network
+   * 
+   * @param user - The user to check
+   * @returns True if the user exists, false otherwise
+   */
+  async userExists(user: UserId): Promise<Result<boolean, ReferralError>> {
+    try {
+      await this.ensureInitialized();
+
+      if (!this.isValidUserId(user)) {
+        return {
+          success: false,
+          error: new ReferralError(
+            ReferralErrorType.INVALID_INPUT,
+            'Invalid user ID',
+            { user }
+          )
+        };
+      }
+
+      const exists = await this.storage.userExists(user);
+      return { success: true, data: exists };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to check user existence',
+          { user, originalError: error }
+        )
+      };
+    }
+  }
+
+  /**
+   * Remove a user and all their relationships
+   * 
+   * The policy decides what happens to the user's direct referrals:
+   * 'orphan' (default) leaves them without a referrer, 'reattach' hands them
+   * to the user's own referrer and 'cascade' removes the whole subtree.
+   * Every policy runs as a single storage transaction.
+   * 
+   * @param user - The user to remove
+   * @param options - Removal policy
+   * @returns Report of the removed, orphaned and reattached users
+   */
+  async removeUser(
+    user: UserId,
+    options: RemoveUserOptions = {}
+  ): Promise<Result<RemovalReport, ReferralError>> {
+    const policy = options.policy ?? 'orphan';
+
+    const release = await this.writeLock.acquire();
+    try {
+      await this.ensureInitialized();
+
+      if (!this.isValidUserId(user)) {
+        return {
+          success: false,
+          error: new ReferralError(
+            ReferralErrorType.INVALID_INPUT,
+            'Invalid user ID',
+            { user }
+          )
+        };
+      }
+
+      if (!['orphan', 'reattach', 'cascade'].includes(policy)) {
+        return {
+          success: false,
+          error: new ReferralError(
+            ReferralErrorType.INVALID_INPUT,
+            'Invalid removal policy',
+            { policy }
+          )
+        };
+      }
+
+      const report: RemovalReport = { policy, removed: [], orphaned: [], reattached: [], newReferrer: null };
+      if (!(await this.storage.userExists(user))) {
+        return { success: true, data: report };
+      }
+
+      const children = await this.storage.getDirectReferrals(user);
+      const referrer = await this.storage.getParent(user);
+
+      if (policy === 'reattach' && referrer !== null && this.config.maxReferralsPerUser) {
+        // The removed user frees one slot of its referrer
+        const referrerCount = (await this.storage.getDirectReferrals(referrer)).length - 1 + children.length;
+        if (referrerCount > this.config.maxReferralsPerUser) {
+          return {
+            success: false,
+            error: new ReferralError(
+              ReferralErrorType.REFERRAL_LIMIT,
+              'Reattaching referrals would exceed the referrer\'s referral limit',
+              {
+                user: referrer,
+                maxReferrals: this.config.maxReferralsPerUser,
+                currentReferrals: referrerCount
+              }
+            )
+          };
+        }
+      }
+
+      const now = this.clock.now();
+      this.revision++;
+      await this.storage.runInTransaction(async () => {
+        // Backends may retry a transaction, so start from an empty report
+        report.removed = [];
+        report.reattached = [];
+        report.orphaned = [];
+        report.newReferrer = null;
+
+        if (policy === 'cascade') {
+          const descendants = await this.storage.getAllReferrals(user);
+          for (const removedUser of [user, ...descendants]) {
+            await this.storage.removeUser(removedUser, now);
+            report.removed.push(removedUser);
+          }
+          return;
+        }
+
+        await this.storage.removeUser(user, now);
+        report.removed.push(user);
+
+        if (policy === 'reattach' && referrer !== null) {
+          for (const child of children) {
+            await this.storage.addReferral(referrer, child, now);
+            report.reattached.push(child);
+          }
+          report.newReferrer = referrer;
+        } else {
+          report.orphaned.push(...children);
+        }
+      });
+
+      return { success: true, data: report };
+    } catch (error) {
+      if (error instanceof ReferralError) {
+        // Backends that enforce referral rules themselves report violations directly
+        return { success: false, error };
+      }
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to remove user',
+          { user, originalError: error }
+        )
+      };
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Clear all data from the network
+   * 
+   * @returns Result indicating success or failure
+   */
+  async clear(): Promise<Result<void, ReferralError>> {
+    const release = await this.writeLock.acquire();
+    try {
+      await this.ensureInitialized();
+
+      this.revision++;
+      await this.storage.clear();
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.STORAGE_ERROR,
+          'Failed to clear network',
+          { originalError: error }
+        )
+      };
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Update network configuration
+   * 
+   * Takes effect from the next operation, so custom rules can be replaced,
+   * or switched off and on by name with disabledRules, at runtime.
+   * 
+   * @param newConfig - New configuration options
+   */
+  updateConfig(newConfig: Partial<ReferralNetworkConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Get current network configuration
+   * 
+   * @returns Current configuration
+   */
+  getConfig(): ReferralNetworkConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * The clock this network reads the current time from
+   */
+  get clock(): Clock {
+    return this.config.clock ?? systemClock;
+  }
+
+  // Private helper methods
 
   private async ensureInitialized(): Promise<void> {
     if (!this.isInitialized) {
@@ -385,6 +1356,142 @@ export class ReferralNetwork {
     }
   }
 
+  /**
+   * Validate and write a single referral; storage failures are thrown
+   */
+  private async applyReferral(
+    referrer: UserId,
+    candidate: UserId,
+    createdAt?: Date
+  ): Promise<Result<void, ReferralError>> {
+    // Validate inputs
+    const validationResult = this.validateReferralInput(referrer, candidate);
+    if (!validationResult.success) {
+      return validationResult;
+    }
+
+    if (createdAt !== undefined && !isValidDate(createdAt)) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.INVALID_INPUT,
+          'Invalid referral timestamp',
+          { referrer, candidate, createdAt }
+        )
+      };
+    }
+
+    const referredAt = createdAt ?? this.clock.now();
+    const joinOrderResult = await this.validateJoinOrder(referrer, candidate, referredAt);
+    if (!joinOrderResult.success) {
+      return joinOrderResult;
+    }
+
+    // Check constraints
+    const constraintResult = await this.validateReferralConstraints(referrer, candidate, referredAt);
+    if (!constraintResult.success) {
+      return constraintResult;
+    }
+
+    // Add the referral
+    this.revision++;
+    await this.storage.addReferral(referrer, candidate, referredAt);
+
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Check that a referral made at `createdAt` does not predate either user
+   * joining; users the referral would create join at `createdAt`, so a
+   * candidate it brings in never joins before its referrer
+   * 
+   * Live and imported referrals share this rule, so every network the
+   * live API builds can be exported and imported again.
+   */
+  private async validateJoinOrder(
+    referrer: UserId,
+    candidate: UserId,
+    createdAt: Date
+  ): Promise<Result<void, ReferralError>> {
+    const referrerCreatedAt = (await this.storage.getUser(referrer))?.createdAt ?? createdAt;
+    const candidateCreatedAt = (await this.storage.getUser(candidate))?.createdAt ?? createdAt;
+    if (createdAt < referrerCreatedAt || createdAt < candidateCreatedAt) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.INVALID_INPUT,
+          'Referral predates its referrer or candidate joining',
+          { referrer, candidate, createdAt, referrerCreatedAt, candidateCreatedAt }
+        )
+      };
+    }
+
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Check that every user ID is valid and present in the network
+   */
+  private async validateExistingUsers(users: UserId[]): Promise<Result<void, ReferralError>> {
+    for (const user of users) {
+      if (!this.isValidUserId(user)) {
+        return {
+          success: false,
+          error: new ReferralError(
+            ReferralErrorType.INVALID_INPUT,
+            'Invalid user ID',
+            { user }
+          )
+        };
+      }
+    }
+
+    for (const user of users) {
+      if (!(await this.storage.userExists(user))) {
+        return {
+          success: false,
+          error: new ReferralError(
+            ReferralErrorType.USER_NOT_FOUND,
+            'User not found',
+            { user }
+          )
+        };
+      }
+    }
+
+    return { success: true, data: undefined };
+  }
+
+  private validateTraversalInput(user: UserId, options: TraversalOptions): Result<void, ReferralError> {
+    if (!this.isValidUserId(user)) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.INVALID_INPUT,
+          'Invalid user ID',
+          { user }
+        )
+      };
+    }
+
+    const { order = 'bfs', maxDepth, limit } = options;
+    const isCount = (value: number | undefined): boolean =>
+      value === undefined || value === Infinity || (Number.isInteger(value) && value >= 0);
+
+    if ((order !== 'bfs' && order !== 'dfs') || !isCount(maxDepth) || !isCount(limit)) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.INVALID_INPUT,
+          'Invalid traversal options',
+          { order, maxDepth, limit }
+        )
+      };
+    }
+
+    return { success: true, data: undefined };
+  }
+
   private validateReferralInput(referrer: UserId, candidate: UserId): Result<void, ReferralError> {
     if (!this.isValidUserId(referrer)) {
       return {
@@ -413,88 +1520,567 @@ export class ReferralNetwork {
 
   private async validateReferralConstraints(
     referrer: UserId, 
-    candidate: UserId
+    candidate: UserId,
+    referredAt: Date
   ): Promise<Result<void, ReferralError>> {
+    const [violation] = await this.collectViolations(referrer, candidate, true, referredAt);
+    if (violation) {
+      return { success: false, error: violation };
+    }
+
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Run the built-in constraints, then the enabled custom rules in order
+   * 
+   * @param firstOnly - Stop at the first violation instead of collecting all
+   * @param referredAt - When the referral is made; quotas are checked in the
+   * windows ending then
+   */
+  private async collectViolations(
+    referrer: UserId,
+    candidate: UserId,
+    firstOnly: boolean,
+    referredAt: Date = this.clock.now()
+  ): Promise<ReferralError[]> {
+    const violations: ReferralError[] = [];
+
     // Check for self-referral
     if (!this.config.allowSelfReferrals && referrer === candidate) {
-      return {
-        success: false,
-        error: new ReferralError(
-          ReferralErrorType.SELF_REFERRAL,
-          'Self-referrals are not allowed',
-          { referrer, candidate }
-        )
-      };
+      violations.push(new ReferralError(
+        ReferralErrorType.SELF_REFERRAL,
+        'Self-referrals are not allowed',
+        { referrer, candidate }
+      ));
+      if (firstOnly) {
+        return violations;
+      }
     }
 
     // Check for multiple referrers
     if (!this.config.allowMultipleReferrers) {
       const existingParent = await this.storage.getParent(candidate);
       if (existingParent && existingParent !== referrer) {
-        return {
-          success: false,
-          error: new ReferralError(
-            ReferralErrorType.MULTIPLE_REFERRERS,
-            'Candidate already has a referrer',
-            { candidate, existingParent, newReferrer: referrer }
-          )
-        };
+        violations.push(new ReferralError(
+          ReferralErrorType.MULTIPLE_REFERRERS,
+          'Candidate already has a referrer',
+          { candidate, existingParent, newReferrer: referrer }
+        ));
+        if (firstOnly) {
+          return violations;
+        }
       }
     }
 
     // Check for cycles
     if (!this.config.allowCycles) {
-      const wouldCreateCycle = await this.storage.wouldCreateCycle(referrer, candidate);
+      const wouldCreateCycle = await this.wouldCreateCycle(referrer, candidate);
       if (wouldCreateCycle) {
-        return {
-          success: false,
-          error: new ReferralError(
-            ReferralErrorType.CYCLE_DETECTED,
-            'Adding this referral would create a cycle',
-            { referrer, candidate }
-          )
-        };
+        violations.push(new ReferralError(
+          ReferralErrorType.CYCLE_DETECTED,
+          'Adding this referral would create a cycle',
+          { referrer, candidate }
+        ));
+        if (firstOnly) {
+          return violations;
+        }
       }
     }
 
-    // Check network size limit
+    // Check network size limit against the users this referral would create
     if (this.config.maxNetworkSize) {
-      const stats = await this.storage.getNetworkStats();
-      if (stats.totalUsers >= this.config.maxNetworkSize) {
-        return {
-          success: false,
-          error: new ReferralError(
-            ReferralErrorType.NETWORK_SIZE_LIMIT,
-            'Network size limit reached',
-            { maxSize: this.config.maxNetworkSize, currentSize: stats.totalUsers }
-          )
-        };
+      const userCount = await this.storage.getUserCount();
+      let newUsers = 0;
+      for (const user of new Set([referrer, candidate])) {
+        if (!(await this.storage.userExists(user))) {
+          newUsers++;
+        }
+      }
+      if (userCount + newUsers > this.config.maxNetworkSize) {
+        violations.push(new ReferralError(
+          ReferralErrorType.NETWORK_SIZE_LIMIT,
+          'Network size limit reached',
+          { maxSize: this.config.maxNetworkSize, currentSize: userCount, newUsers }
+        ));
+        if (firstOnly) {
+          return violations;
+        }
       }
     }
 
     // Check referral limit per user
     if (this.config.maxReferralsPerUser) {
       const directReferrals = await this.storage.getDirectReferrals(referrer);
+      if (directReferrals.length >= this.config.maxReferralsPerUser) {
+        violations.push(new ReferralError(
+          ReferralErrorType.REFERRAL_LIMIT,
+          'User has reached maximum referral limit',
+          { 
+            user: referrer, 
+            maxReferrals: this.config.maxReferralsPerUser, 
+            currentReferrals: directReferrals.length 
+          }
+        ));
+        if (firstOnly) {
+          return violations;
+        }
+      }
+    }
+
+    // Check rolling-window quotas
+    const quotaViolation = await this.checkQuotas(referrer, referredAt);
+    if (quotaViolation) {
+      violations.push(quotaViolation);
+      if (firstOnly) {
+        return violations;
+      }
+    }
+
+    violations.push(...await this.runRules(referrer, candidate, firstOnly));
+    return violations;
+  }
+
+  /**
+   * Run the enabled custom rules in order against a prospective referral
+   */
+  private async runRules(referrer: UserId, candidate: UserId, firstOnly: boolean): Promise<ReferralError[]> {
+    const disabled = new Set(this.config.disabledRules ?? []);
+    const rules = (this.config.rules ?? [])
+      .filter(rule => !disabled.has(rule.name))
+      .map((rule, index) => ({ rule, index }))
+      .sort((a, b) => (a.rule.order ?? 0) - (b.rule.order ?? 0) || a.index - b.index);
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const context: ReferralRuleContext = {
+      referrer,
+      candidate,
+      storage: readOnlyView(this.storage),
+      config: Object.freeze({ ...this.config }),
+      clock: this.clock
+    };
+
+    const violations: ReferralError[] = [];
+    for (const { rule } of rules) {
+      const violation = await rule.check(context);
+      if (violation) {
+        violations.push(violation);
+        if (firstOnly) {
+          break;
+        }
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * Reject a referral made at `referredAt` if any quota window containing
+   * that time would then hold more than its limit
+   * 
+   * A backfilled referral can land before referrals already stored, so the
+   * windows ending after `referredAt` are checked as well as the one ending
+   * then. The fullest window containing `referredAt` ends either then or at
+   * one of the later referrals, so only those ends are tried.
+   */
+  private async checkQuotas(referrer: UserId, referredAt: Date): Promise<ReferralError | null> {
+    const quotas = this.config.referralQuotas ?? [];
+    if (quotas.length === 0) {
+      return null;
+    }
+
+    const time = referredAt.getTime();
+    const times = (await this.storage.getReferralRelationships(referrer))
+      .map(relationship => relationship.createdAt.getTime());
+
+    for (const { limit, windowMs } of quotas) {
+      // A window ending at `end` holds the referrals in (end - windowMs, end]
+      const ends = [time, ...times.filter(other => other > time && other < time + windowMs)];
+      const used = Math.max(...ends.map(end =>
+        times.filter(other => other > end - windowMs && other <= end).length
+      ));
+      if (used + 1 > limit) {
+        return new ReferralError(
+          ReferralErrorType.QUOTA_EXCEEDED,
+          'Referral quota exceeded',
+          { user: referrer, limit, windowMs, used, referredAt }
+        );
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Count a user's referrals in every quota window ending at `at`
+   * 
+   * A referral made at time t counts while at < t + windowMs. This reports
+   * the allowance at `at`; referrals dated after it belong to later windows.
+   */
+  private async evaluateQuotas(user: UserId, at: Date): Promise<QuotaStatus> {
+    const quotas = this.config.referralQuotas ?? [];
+    if (quotas.length === 0) {
+      return { user, remaining: null, nextSlotAt: null, windows: [] };
+    }
+
+    const now = at.getTime();
+    const times = (await this.storage.getReferralRelationships(user))
+      .map(relationship => relationship.createdAt.getTime())
+      .filter(time => time <= now)
+      .sort((a, b) => a - b);
+
+    const windows = quotas.map(({ limit, windowMs }): QuotaWindowStatus => {
+      const inWindow = times.filter(time => time > now - windowMs);
+      // An over-full window gains a slot only once enough referrals expire
+      // to bring it below the limit
+      const freeing = inWindow[Math.max(0, inWindow.length - limit)];
+      return {
+        limit,
+        windowMs,
+        used: inWindow.length,
+        remaining: Math.max(0, limit - inWindow.length),
+        nextSlotAt: freeing === undefined ? null : new Date(freeing + windowMs)
+      };
+    });
+
+    const remaining = Math.min(...windows.map(window => window.remaining));
+    let nextSlotAt: Date | null = null;
+    if (remaining === 0) {
+      // The user is blocked until every exhausted window has a free slot
+      for (const window of windows) {
+        if (window.remaining > 0) {
+          continue;
+        }
+        if (window.nextSlotAt === null) {
+          nextSlotAt = null;
+          break;
+        }
+        if (nextSlotAt === null || window.nextSlotAt > nextSlotAt) {
+          nextSlotAt = window.nextSlotAt;
+        }
+      }
+    }
+
+    return { user, remaining, nextSlotAt, windows };
+  }
+
+  private async validateReassignment(
+    candidate: UserId,
+    newReferrer: UserId
+  ): Promise<Result<void, ReferralError>> {
+    if (!this.config.allowSelfReferrals && candidate === newReferrer) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.SELF_REFERRAL,
+          'Self-referrals are not allowed',
+          { referrer: newReferrer, candidate }
+        )
+      };
+    }
+
+    if (!this.config.allowCycles && await this.wouldCreateCycle(newReferrer, candidate)) {
+      return {
+        success: false,
+        error: new ReferralError(
+          ReferralErrorType.CYCLE_DETECTED,
+          'Cannot move a user under one of its own descendants',
+          { referrer: newReferrer, candidate }
+        )
+      };
+    }
+
+    if (this.config.maxReferralsPerUser) {
+      const directReferrals = await this.storage.getDirectReferrals(newReferrer);
       if (directReferrals.length >= this.config.maxReferralsPerUser) {
         return {
           success: false,
           error: new ReferralError(
             ReferralErrorType.REFERRAL_LIMIT,
             'User has reached maximum referral limit',
-            { 
-              user: referrer, 
-              maxReferrals: this.config.maxReferralsPerUser, 
-              currentReferrals: directReferrals.length 
+            {
+              user: newReferrer,
+              maxReferrals: this.config.maxReferralsPerUser,
+              currentReferrals: directReferrals.length
             }
           )
         };
       }
     }
 
+    const quotaViolation = await this.checkQuotas(newReferrer, this.clock.now());
+    if (quotaViolation) {
+      return { success: false, error: quotaViolation };
+    }
+
+    const [ruleViolation] = await this.runRules(newReferrer, candidate, true);
+    if (ruleViolation) {
+      return { success: false, error: ruleViolation };
+    }
+
     return { success: true, data: undefined };
   }
 
+  /**
+   * Produce up to `limit` more entries of a paginated traversal, updating
+   * `state` in place to resume after them
+   * 
+   * Matches walkDescendants: each frontier segment holds a referrer, the
+   * index of its next referral to visit and the depth of its referrals. BFS
+   * takes from the first segment and DFS from the last. Only the start user
+   * and users with several referrers can be reached twice, so only they are
+   * remembered as seen. On return the frontier is empty once no unseen
+   * descendant is left.
+   */
+  private async continueTraversal(state: TraversalCursorState, limit: number): Promise<TraversalEntry[]> {
+    const seen = new Set<UserId>([state.user, ...state.seen]);
+    const maxDepth = state.maxDepth ?? Infinity;
+    const children = new Map<UserId, UserId[]>();
+    const childrenOf = async (userId: UserId): Promise<UserId[]> => {
+      let result = children.get(userId);
+      if (!result) {
+        result = await this.storage.getDirectReferrals(userId);
+        children.set(userId, result);
+      }
+      return result;
+    };
+
+    // Pending segments, read from the front for BFS and the back for DFS
+    const frontier = state.frontier;
+    let head = 0;
+    const entries: TraversalEntry[] = [];
+
+    while (head < frontier.length) {
+      const segmentIndex = state.order === 'dfs' ? frontier.length - 1 : head;
+      const segment = frontier[segmentIndex];
+      if (!segment) {
+        break;
+      }
+      const [parent, index, depth] = segment;
+      const childId = (await childrenOf(parent))[index];
+      if (childId === undefined) {
+        if (state.order === 'dfs') {
+          frontier.pop();
+        } else {
+          head++;
+        }
+        continue;
+      }
+      if (seen.has(childId)) {
+        segment[1]++;
+        continue;
+      }
+      // A full page stops at the next unseen user, so the frontier is only
+      // left non-empty while there is more to read
+      if (entries.length === limit) {
+        break;
+      }
+
+      segment[1]++;
+      entries.push({ userId: childId, depth, parent });
+      const node = await this.storage.getUser(childId);
+      if ((node?.parents.length ?? 0) > 1) {
+        seen.add(childId);
+        state.seen.push(childId);
+      }
+      if (node && depth < maxDepth) {
+        children.set(childId, [...node.directReferrals]);
+        frontier.push([childId, 0, depth + 1]);
+      }
+    }
+
+    state.frontier = frontier.slice(head);
+    return entries;
+  }
+
+  /**
+   * Check whether referrer → candidate would close a cycle
+   * 
+   * A cycle forms only if the candidate is the referrer or one of its
+   * ancestors. Searching upwards through the referrer's referrers is O(depth)
+   * while every user has a single referrer, however large the candidate's
+   * subtree is. It is not always the smaller search: a new candidate has no
+   * descendants to visit, while the walk still climbs the referrer's whole
+   * chain.
+   */
+  private async wouldCreateCycle(referrer: UserId, candidate: UserId): Promise<boolean> {
+    if (referrer === candidate) {
+      return true;
+    }
+
+    return this.storage.isAncestor(candidate, referrer);
+  }
+
   private isValidUserId(userId: UserId): boolean {
     return typeof userId === 'string' && userId.trim().length > 0;
   }
 }
+
+const systemClock: Clock = { now: () => new Date() };
+
+/**
+ * Expose only the query methods of a storage, so rules cannot write through it
+ */
+function readOnlyView(storage: IReferralStorage): IReadOnlyReferralStorage {
+  return {
+    getUser: userId => storage.getUser(userId),
+    userExists: userId => storage.userExists(userId),
+    getAllUsers: () => storage.getAllUsers(),
+    getDirectReferrals: userId => storage.getDirectReferrals(userId),
+    getAllReferrals: userId => storage.getAllReferrals(userId),
+    getParent: userId => storage.getParent(userId),
+    getParents: userId => storage.getParents(userId),
+    getAncestors: userId => storage.getAncestors(userId),
+    getDepth: userId => storage.getDepth(userId),
+    getRoot: userId => storage.getRoot(userId),
+    getReach: userId => storage.getReach(userId),
+    getUserCount: () => storage.getUserCount(),
+    getNetworkStats: () => storage.getNetworkStats(),
+    isAncestor: (ancestor, userId) => storage.isAncestor(ancestor, userId),
+    getAllReferralRelationships: () => storage.getAllReferralRelationships(),
+    getReferralRelationships: referrer => storage.getReferralRelationships(referrer),
+    getUserHistory: () => storage.getUserHistory(),
+    getReferralHistory: () => storage.getReferralHistory()
+  };
+}
+
+/**
+ * Expose only the query methods of a network, so a historical view cannot be
+ * written to; user nodes and relationships are copied so they cannot be
+ * edited in place either
+ */
+function queryOnlyView(network: ReferralNetwork): ReferralNetworkView {
+  const view: ReferralNetworkView = {
+    directReferrals: user => network.directReferrals(user),
+    allReferrals: user => network.allReferrals(user),
+    traverseReferrals: (user, options) => network.traverseReferrals(user, options),
+    referralsPage: (user, options) => network.referralsPage(user, options),
+    reachOf: user => network.reachOf(user),
+    reachScores: () => network.reachScores(),
+    getParent: user => network.getParent(user),
+    getParents: user => network.getParents(user),
+    ancestors: user => network.ancestors(user),
+    depthOf: user => network.depthOf(user),
+    rootOf: user => network.rootOf(user),
+    lowestCommonReferrer: (a, b) => network.lowestCommonReferrer(a, b),
+    referralPath: (from, to) => network.referralPath(from, to),
+    getAllUsers: async () => {
+      const result = await network.getAllUsers();
+      return result.success
+        ? {
+          success: true,
+          data: result.data.map(node => ({
+            ...node,
+            directReferrals: [...node.directReferrals],
+            parents: [...node.parents]
+          }))
+        }
+        : result;
+    },
+    getAllReferralRelationships: async () => {
+      const result = await network.getAllReferralRelationships();
+      return result.success ? { success: true, data: result.data.map(relationship => ({ ...relationship })) } : result;
+    },
+    getNetworkStats: () => network.getNetworkStats(),
+    stronglyConnectedComponents: () => network.stronglyConnectedComponents(),
+    condensation: () => network.condensation(),
+    userExists: user => network.userExists(user),
+    getConfig: () => network.getConfig()
+  };
+  return Object.freeze(view);
+}
+
+/**
+ * The query methods of a ReferralNetwork, as returned by asOf
+ */
+export type ReferralNetworkView = Pick<
+  ReferralNetwork,
+  | 'directReferrals'
+  | 'allReferrals'
+  | 'traverseReferrals'
+  | 'referralsPage'
+  | 'reachOf'
+  | 'reachScores'
+  | 'getParent'
+  | 'getParents'
+  | 'ancestors'
+  | 'depthOf'
+  | 'rootOf'
+  | 'lowestCommonReferrer'
+  | 'referralPath'
+  | 'getAllUsers'
+  | 'getAllReferralRelationships'
+  | 'getNetworkStats'
+  | 'stronglyConnectedComponents'
+  | 'condensation'
+  | 'userExists'
+  | 'getConfig'
+>;
+
+function isValidDate(value: Date): boolean {
+  return value instanceof Date && !Number.isNaN(value.getTime());
+}
+
+/**
+ * Position of a paginated traversal, carried in its cursor
+ */
+interface TraversalCursorState {
+  /** Instance and revision of the network the cursor was issued by */
+  epoch: string;
+  revision: number;
+  user: UserId;
+  order: TraversalOrder;
+  /** null when the traversal has no depth limit */
+  maxDepth: number | null;
+  /** Referrer, index of its next referral to visit, depth of its referrals */
+  frontier: Array<[UserId, number, number]>;
+  /** Users already produced that could be reached again */
+  seen: UserId[];
+}
+
+/**
+ * Encode a traversal position as an opaque cursor
+ */
+function encodeTraversalCursor(state: TraversalCursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeTraversalCursor, or return null if it is malformed
+ */
+function decodeTraversalCursor(cursor: string): TraversalCursorState | null {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const isCount = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 0;
+    const isUserId = (value: unknown): boolean => typeof value === 'string';
+    const isValid =
+      typeof state === 'object' && state !== null &&
+      typeof state.epoch === 'string' &&
+      isCount(state.revision) &&
+      isUserId(state.user) &&
+      (state.order === 'bfs' || state.order === 'dfs') &&
+      (state.maxDepth === null || isCount(state.maxDepth)) &&
+      Array.isArray(state.frontier) &&
+      state.frontier.every((segment: unknown) =>
+        Array.isArray(segment) && segment.length === 3 &&
+        isUserId(segment[0]) && isCount(segment[1]) && isCount(segment[2])) &&
+      Array.isArray(state.seen) &&
+      state.seen.every(isUserId);
+    return isValid ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Thrown inside a batch transaction to roll back a rejected atomic batch
+ */
+class BatchRejection extends Error {
+  public readonly report: BatchReferralReport;
+
+  constructor(report: BatchReferralReport) {
+    super('Referral batch rejected');
+    this.name = 'BatchRejection';
+    this.report = report;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Async write lock for the Referral Network
+ *
+ * Storage calls are asynchronous, so a mutation that validates and then
+ * writes can interleave with another one between its awaits. Holding this
+ * lock for the whole mutation turns validate-then-write into a critical
+ * section. Writers are admitted one at a time in FIFO order; reads never take
+ * the lock and keep running concurrently.
+ */
+
+export class WriteLock {
+  private tail: Promise<void> = Promise.resolve();
+  private queued = 0;
+
+  /**
+   * Wait until every earlier writer has released the lock
+   *
+   * @returns Function that releases the lock; calling it again is a no-op
+   */
+  async acquire(): Promise<() => void> {
+    let unlock: () => void = () => undefined;
+    const released = new Promise<void>(resolve => {
+      unlock = resolve;
+    });
+
+    const previous = this.tail;
+    this.tail = previous.then(() => released);
+    this.queued++;
+    await previous;
+
+    let isReleased = false;
+    return () => {
+      if (!isReleased) {
+        isReleased = true;
+        this.queued--;
+        unlock();
+      }
+    };
+  }
+
+  /**
+   * Run an operation while holding the lock
+   */
+  async runExclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const release = await this.acquire();
+    try {
+      return await operation();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Number of writers holding or waiting for the lock
+   */
+  get pending(): number {
+    return this.queued;
+  }
+}
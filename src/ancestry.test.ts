@@ -0,0 +1,65 @@
+/**
+ * Tests for the upward queries of ReferralNetwork on referral DAGs
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReferralNetwork, ReferralErrorType, UserId } from './index.js';
+
+/**
+ * root → a → a2 → x, root → b → x, b → y, root → c, and a separate root z
+ */
+async function network(): Promise<ReferralNetwork> {
+  const result = new ReferralNetwork({ allowMultipleReferrers: true });
+  const edges: Array<[UserId, UserId]> = [
+    ['root', 'a'], ['a', 'a2'], ['a2', 'x'], ['root', 'b'], ['b', 'x'], ['b', 'y'], ['root', 'c']
+  ];
+  for (const [referrer, candidate] of edges) {
+    assert.equal((await result.addReferral(referrer, candidate)).success, true);
+  }
+  await result.addUser('z');
+  return result;
+}
+
+describe('ancestry queries', () => {
+  it('lists every ancestor once, nearest first', async () => {
+    const referrals = await network();
+
+    assert.deepEqual(await referrals.ancestors('x'), { success: true, data: ['a2', 'b', 'a', 'root'] });
+    assert.deepEqual(await referrals.ancestors('root'), { success: true, data: [] });
+  });
+
+  it('measures depth along the shortest chain to a root', async () => {
+    const referrals = await network();
+
+    assert.deepEqual(await referrals.depthOf('x'), { success: true, data: 2 });
+    assert.deepEqual(await referrals.depthOf('root'), { success: true, data: 0 });
+    assert.deepEqual(await referrals.rootOf('x'), { success: true, data: 'root' });
+  });
+
+  it('finds the lowest common referrer', async () => {
+    const referrals = await network();
+
+    assert.deepEqual(await referrals.lowestCommonReferrer('x', 'y'), { success: true, data: 'b' });
+    assert.deepEqual(await referrals.lowestCommonReferrer('x', 'c'), { success: true, data: 'root' });
+    assert.deepEqual(await referrals.lowestCommonReferrer('a2', 'x'), { success: true, data: 'a2' });
+    assert.deepEqual(await referrals.lowestCommonReferrer('x', 'z'), { success: true, data: null });
+  });
+
+  it('follows the shortest referral path downwards', async () => {
+    const referrals = await network();
+
+    assert.deepEqual(await referrals.referralPath('root', 'x'), { success: true, data: ['root', 'b', 'x'] });
+    assert.deepEqual(await referrals.referralPath('a', 'x'), { success: true, data: ['a', 'a2', 'x'] });
+    assert.deepEqual(await referrals.referralPath('x', 'x'), { success: true, data: ['x'] });
+    assert.deepEqual(await referrals.referralPath('x', 'root'), { success: true, data: null });
+    assert.deepEqual(await referrals.referralPath('c', 'x'), { success: true, data: null });
+  });
+
+  it('rejects unknown users', async () => {
+    const referrals = await network();
+
+    const result = await referrals.lowestCommonReferrer('x', 'nobody');
+    assert.equal(result.success ? undefined : result.error.type, ReferralErrorType.USER_NOT_FOUND);
+  });
+});
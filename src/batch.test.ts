@@ -0,0 +1,97 @@
+/**
+ * Tests for batch referrals from ReferralNetwork.addReferrals
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReferralNetwork, ReferralErrorType, InMemoryStorage, UserId } from './index.js';
+// The package index re-exports ReferralError as a type only
+import { ReferralError } from './types/index.js';
+
+/**
+ * Referrals as [referrer, candidate] pairs, in the order they were made
+ */
+async function edgesOf(network: ReferralNetwork): Promise<Array<[UserId, UserId]>> {
+  const result = await network.getAllReferralRelationships();
+  assert.ok(result.success);
+  return result.data.map(({ referrer, candidate }) => [referrer, candidate]);
+}
+
+describe('addReferrals', () => {
+  it('rolls an atomic batch back when an edge in the middle fails', async () => {
+    const network = new ReferralNetwork();
+    await network.addReferral('root', 'a');
+
+    const result = await network.addReferrals([
+      { referrer: 'a', candidate: 'b' },
+      { referrer: 'b', candidate: 'root' },
+      { referrer: 'b', candidate: 'c' }
+    ]);
+
+    assert.ok(result.success);
+    assert.equal(result.data.committed, false);
+    assert.equal(result.data.applied, 0);
+    assert.deepEqual(result.data.failures.map(failure => failure.index), [1]);
+    assert.deepEqual(await edgesOf(network), [['root', 'a']]);
+    assert.deepEqual(await network.userExists('c'), { success: true, data: false });
+  });
+
+  it('reports each edge that closes a cycle or adds a second referrer within the batch', async () => {
+    const network = new ReferralNetwork();
+
+    const result = await network.addReferrals([
+      { referrer: 'a', candidate: 'b' },
+      { referrer: 'b', candidate: 'c' },
+      { referrer: 'c', candidate: 'a' },
+      { referrer: 'd', candidate: 'c' }
+    ], { mode: 'best-effort' });
+
+    assert.ok(result.success);
+    const failures = result.data.failures;
+    assert.deepEqual(
+      failures.map(({ index, referrer, candidate, errorType }) => ({ index, referrer, candidate, errorType })),
+      [
+        { index: 2, referrer: 'c', candidate: 'a', errorType: ReferralErrorType.CYCLE_DETECTED },
+        { index: 3, referrer: 'd', candidate: 'c', errorType: ReferralErrorType.MULTIPLE_REFERRERS }
+      ]
+    );
+    assert.ok(failures.every(failure => failure.error instanceof ReferralError && failure.error.type === failure.errorType));
+  });
+
+  it('keeps the valid edges of a best-effort batch', async () => {
+    const network = new ReferralNetwork();
+
+    const result = await network.addReferrals([
+      { referrer: 'a', candidate: 'b' },
+      { referrer: 'b', candidate: 'b' },
+      { referrer: 'b', candidate: 'c' }
+    ], { mode: 'best-effort' });
+
+    assert.ok(result.success);
+    assert.equal(result.data.committed, true);
+    assert.equal(result.data.applied, 2);
+    assert.deepEqual(result.data.failures.map(failure => failure.errorType), [ReferralErrorType.SELF_REFERRAL]);
+    assert.deepEqual(await edgesOf(network), [['a', 'b'], ['b', 'c']]);
+  });
+
+  it('passes on a rule violation reported by the storage', async () => {
+    // Stands in for a backend that sees a concurrent writer's referral
+    class RacingStorage extends InMemoryStorage {
+      override async addReferral(referrer: UserId, candidate: UserId, createdAt?: Date): Promise<void> {
+        if (candidate === 'contested') {
+          throw new ReferralError(ReferralErrorType.MULTIPLE_REFERRERS, 'User already has a referrer', { referrer, candidate });
+        }
+        return super.addReferral(referrer, candidate, createdAt);
+      }
+    }
+    const network = new ReferralNetwork({}, new RacingStorage());
+
+    const result = await network.addReferrals([
+      { referrer: 'a', candidate: 'b' },
+      { referrer: 'a', candidate: 'contested' }
+    ]);
+
+    assert.equal(result.success ? undefined : result.error.type, ReferralErrorType.MULTIPLE_REFERRERS);
+    assert.deepEqual(await edgesOf(network), []);
+  });
+});
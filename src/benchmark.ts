@@ -0,0 +1,173 @@
+/**
+ * Benchmark for the addReferral write path
+ *
+ * Compares a replay of the previous constraint checks (full network stats
+ * for the size limit, subtree BFS for cycles) with the counter and
+ * parent-chain checks used by ReferralNetwork today.
+ */
+
+import { ReferralNetwork, UserId } from './index.js';
+
+type Edge = [UserId, UserId];
+
+/**
+ * A single chain u0 → u1 → ... → u(n-1), the worst case for depth-based work
+ */
+function chainEdges(size: number): Edge[] {
+  const edges: Edge[] = [];
+  for (let i = 1; i < size; i++) {
+    edges.push([`u${i - 1}`, `u${i}`]);
+  }
+  return edges;
+}
+
+/**
+ * A random tree where every user is referred by an earlier user
+ */
+function randomTreeEdges(size: number): Edge[] {
+  let seed = 42;
+  const random = (): number => {
+    seed = (seed * 48271) % 2147483647;
+    return seed / 2147483647;
+  };
+
+  const edges: Edge[] = [];
+  for (let i = 1; i < size; i++) {
+    edges.push([`u${Math.floor(random() * i)}`, `u${i}`]);
+  }
+  return edges;
+}
+
+/**
+ * The adjacency store and constraint checks addReferral relied on before
+ * they were reduced to counters and parent-chain walks: the size limit read
+ * full network stats, computing every user's depth with a recursive DFS,
+ * and the cycle check searched the candidate's whole subtree breadth first
+ */
+class BaselineNetwork {
+  private readonly referrals = new Map<UserId, UserId[]>();
+  private readonly parents = new Map<UserId, UserId>();
+
+  addReferral(referrer: UserId, candidate: UserId, maxNetworkSize: number): void {
+    const existingParent = this.parents.get(candidate);
+    if (existingParent && existingParent !== referrer) {
+      throw new Error('Candidate already has a referrer');
+    }
+    if (this.canReach(candidate, referrer)) {
+      throw new Error('Adding this referral would create a cycle');
+    }
+    if (this.networkStats().totalUsers >= maxNetworkSize) {
+      throw new Error('Network size limit reached');
+    }
+
+    for (const userId of [referrer, candidate]) {
+      if (!this.referrals.has(userId)) {
+        this.referrals.set(userId, []);
+      }
+    }
+    this.referrals.get(referrer)?.push(candidate);
+    this.parents.set(candidate, referrer);
+  }
+
+  private networkStats(): { totalUsers: number; maxDepth: number } {
+    let maxDepth = 0;
+    for (const userId of this.referrals.keys()) {
+      maxDepth = Math.max(maxDepth, this.calculateDepth(userId));
+    }
+    return { totalUsers: this.referrals.size, maxDepth };
+  }
+
+  private calculateDepth(userId: UserId): number {
+    const visited = new Set<UserId>();
+    const dfs = (current: UserId): number => {
+      if (visited.has(current)) {
+        return 0;
+      }
+      visited.add(current);
+
+      let maxChildDepth = -1;
+      for (const childId of this.referrals.get(current) ?? []) {
+        maxChildDepth = Math.max(maxChildDepth, dfs(childId));
+      }
+      return 1 + maxChildDepth;
+    };
+    return dfs(userId);
+  }
+
+  private canReach(start: UserId, target: UserId): boolean {
+    if (start === target) {
+      return true;
+    }
+
+    const visited = new Set<UserId>([start]);
+    const queue: UserId[] = [start];
+    while (queue.length > 0) {
+      const current = queue.shift() ?? start;
+      for (const childId of this.referrals.get(current) ?? []) {
+        if (childId === target) {
+          return true;
+        }
+        if (!visited.has(childId)) {
+          visited.add(childId);
+          queue.push(childId);
+        }
+      }
+    }
+    return false;
+  }
+}
+
+async function timeLegacy(edges: Edge[]): Promise<number> {
+  const network = new BaselineNetwork();
+
+  const start = performance.now();
+  for (const [referrer, candidate] of edges) {
+    network.addReferral(referrer, candidate, edges.length * 2);
+  }
+  return performance.now() - start;
+}
+
+async function timeCurrent(edges: Edge[]): Promise<number> {
+  const network = new ReferralNetwork({ maxNetworkSize: edges.length * 2 });
+  await network.initialize();
+
+  const start = performance.now();
+  for (const [referrer, candidate] of edges) {
+    const result = await network.addReferral(referrer, candidate);
+    if (!result.success) {
+      throw result.error;
+    }
+  }
+  return performance.now() - start;
+}
+
+async function runBenchmark(): Promise<void> {
+  console.log('⏱️  addReferral write path benchmark\n');
+  console.log('shape        users    legacy (ms)   current (ms)   speedup');
+  console.log('─'.repeat(62));
+
+  const shapes: Array<[string, (size: number) => Edge[]]> = [
+    ['chain', chainEdges],
+    ['random tree', randomTreeEdges]
+  ];
+
+  for (const [name, generate] of shapes) {
+    for (const size of [250, 500, 1000]) {
+      const edges = generate(size);
+      const legacy = await timeLegacy(edges);
+      const current = await timeCurrent(edges);
+      console.log(
+        `${name.padEnd(12)} ${String(size).padStart(5)} ` +
+        `${legacy.toFixed(1).padStart(14)} ${current.toFixed(1).padStart(14)} ` +
+        `${(legacy / current).toFixed(1).padStart(8)}x`
+      );
+    }
+  }
+
+  // Large imports are only practical with the current checks
+  const edges = randomTreeEdges(200_000);
+  const current = await timeCurrent(edges);
+  console.log(`\n📥 Imported ${edges.length} edges in ${current.toFixed(0)} ms with the current checks`);
+}
+
+runBenchmark().catch(console.error);
@@ -0,0 +1,113 @@
+/**
+ * Tests for the referral-network command-line tool
+ */
+
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtempSync, rmSync, readFileSync, existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ReferralErrorType } from './index.js';
+
+const CLI = fileURLToPath(new URL('./cli.js', import.meta.url));
+
+const directory = mkdtempSync(join(tmpdir(), 'referral-cli-'));
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+let fileCount = 0;
+function newFile(): string {
+  return join(directory, `network-${++fileCount}.json`);
+}
+
+interface CliRun {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+function run(file: string, ...args: string[]): Promise<CliRun> {
+  return new Promise(resolve => {
+    execFile(process.execPath, [CLI, '--file', file, ...args], (error, stdout, stderr) => {
+      resolve({ code: typeof error?.code === 'number' ? error.code : 0, stdout, stderr });
+    });
+  });
+}
+
+/**
+ * The error type printed by a failing command run with --json
+ */
+function errorType(result: CliRun): string {
+  assert.equal(result.code, 1);
+  return JSON.parse(result.stderr).error.type;
+}
+
+describe('referral-network CLI', () => {
+  it('records referrals in the network file and reads them back', async () => {
+    const file = newFile();
+    assert.equal((await run(file, 'add', 'alice', 'bob')).stdout, 'alice referred bob\n');
+    assert.equal((await run(file, 'add', 'bob', 'carol')).code, 0);
+    assert.equal((await run(file, 'add', 'dave', 'erin', '--at', '2024-01-01T00:00:00Z')).code, 0);
+
+    const shown = await run(file, 'show', 'bob', '--json');
+    assert.deepEqual(JSON.parse(shown.stdout), {
+      user: 'bob',
+      ancestors: ['alice'],
+      directReferrals: ['carol'],
+      allReferrals: ['carol']
+    });
+    const { referrals } = JSON.parse(readFileSync(file, 'utf8')) as { referrals: Array<{ candidate: string; createdAt: string }> };
+    assert.equal(referrals.find(referral => referral.candidate === 'erin')?.createdAt, '2024-01-01T00:00:00.000Z');
+
+    const top = await run(file, 'top', '--by', 'reach', '-k', '1', '--json');
+    assert.deepEqual(JSON.parse(top.stdout).ranking, [{ rank: 1, userId: 'alice', score: 2 }]);
+    assert.equal(JSON.parse((await run(file, 'stats', '--json')).stdout).totalUsers, 5);
+  });
+
+  it('removes a user with the requested policy', async () => {
+    const file = newFile();
+    await run(file, 'add', 'alice', 'bob');
+    await run(file, 'add', 'bob', 'carol');
+
+    const removed = await run(file, 'remove', 'bob', '--policy', 'reattach');
+    assert.equal(removed.stdout, 'Removed bob\nReattached to alice: carol\n');
+    assert.deepEqual(JSON.parse((await run(file, 'show', 'carol', '--json')).stdout).ancestors, ['alice']);
+  });
+
+  it('exits with the referral error type and leaves the file unchanged', async () => {
+    const file = newFile();
+    await run(file, 'add', 'alice', 'bob');
+    const before = readFileSync(file, 'utf8');
+
+    assert.equal(errorType(await run(file, 'add', 'bob', 'alice', '--json')), ReferralErrorType.CYCLE_DETECTED);
+    assert.equal(errorType(await run(file, 'add', 'bob', 'bob', '--json')), ReferralErrorType.SELF_REFERRAL);
+    assert.equal(errorType(await run(file, 'remove', 'nobody', '--json')), ReferralErrorType.USER_NOT_FOUND);
+    assert.equal(readFileSync(file, 'utf8'), before);
+
+    const plain = await run(file, 'add', 'bob', 'alice');
+    assert.match(plain.stderr, /^Error \[CYCLE_DETECTED\]: /);
+  });
+
+  it('rejects bad arguments as invalid input', async () => {
+    const file = newFile();
+
+    assert.equal(errorType(await run(file, 'add', 'alice', '--json')), ReferralErrorType.INVALID_INPUT);
+    assert.equal(errorType(await run(file, 'frobnicate', '--json')), ReferralErrorType.INVALID_INPUT);
+    assert.equal(errorType(await run(file, 'top', '--by', 'size', '--json')), ReferralErrorType.INVALID_INPUT);
+    assert.equal(errorType(await run(file, 'project', '--p', 'half', '--days', '3', '--json')), ReferralErrorType.INVALID_INPUT);
+    assert.equal(existsSync(file), false);
+  });
+
+  it('projects growth and searches for the minimum bonus without a network file', async () => {
+    const file = newFile();
+
+    const projected = await run(file, 'project', '--p', '1', '--days', '2', '--initial', '1', '--capacity', '1', '--json');
+    assert.equal(JSON.parse(projected.stdout).expectedNetworkSize, 4);
+
+    const bonus = await run(file, 'min-bonus', '--days', '2', '--target', '4', '--table', '0=0,100=1',
+      '--initial', '1', '--capacity', '1', '--json');
+    assert.equal(JSON.parse(bonus.stdout).bonus, 100);
+    assert.equal(existsSync(file), false);
+  });
+});
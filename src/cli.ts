@@ -0,0 +1,425 @@
+#!/usr/bin/env node
+/**
+ * Command-line tool for managing and analyzing a referral network file
+ *
+ * The network is persisted as the versioned JSON document written by
+ * exportJson. Every command prints human-readable output, or JSON with
+ * --json. Failures exit with status 1 and name the ReferralErrorType.
+ */
+
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import {
+  ReferralNetwork,
+  Result,
+  RemovalPolicy,
+  UserId,
+  GrowthModelOptions,
+  topKByReach,
+  topKByFlowCentrality,
+  flowCentralityScores,
+  expectedNetworkSize,
+  minBonusReport,
+  exportJson,
+  importJson
+} from './index.js';
+import { ReferralError, ReferralErrorType } from './types/index.js';
+
+const USAGE = `Usage: referral-network <command> [options]
+
+Commands:
+  add <referrer> <candidate>     Record a referral
+          [--at TIMESTAMP]       When it was made, to backfill history
+  remove <user> [--policy P]     Remove a user (orphan | reattach | cascade)
+  show <user>                    Show a user's referrals and ancestors
+  stats                          Show network statistics
+  top [--by reach|flow] [-k N]   Rank users by reach or flow centrality
+  project --p P --days D         Project the expected network size
+          [--initial N] [--capacity C] [--latency L]
+  min-bonus --days D --target T --table "bonus=prob,..." [--max-bonus B]
+                                 Find the smallest bonus reaching the target
+
+Options:
+  --file PATH   Network file (default: $REFERRAL_NETWORK_FILE or referral-network.json)
+  --json        Print machine-readable JSON
+  --help        Show this help`;
+
+interface CommandOutput {
+  data: unknown;
+  text: string;
+}
+
+type Options = Record<string, string | boolean | undefined>;
+
+class CliError extends Error {
+  public readonly type: ReferralErrorType;
+
+  constructor(type: ReferralErrorType, message: string) {
+    super(message);
+    this.name = 'CliError';
+    this.type = type;
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(argv);
+  } catch (error) {
+    return fail(new CliError(ReferralErrorType.INVALID_INPUT, (error as Error).message), false);
+  }
+
+  const { command, args, options } = parsed;
+  const json = options['json'] === true;
+
+  if (options['help'] === true || command === undefined) {
+    process.stdout.write(`${USAGE}\n`);
+    return command === undefined && options['help'] !== true ? 1 : 0;
+  }
+
+  try {
+    const file = stringOption(options, 'file') ?? process.env['REFERRAL_NETWORK_FILE'] ?? 'referral-network.json';
+    const output = await runCommand(command, args, options, file);
+    process.stdout.write(json ? `${JSON.stringify(output.data, null, 2)}\n` : `${output.text}\n`);
+    return 0;
+  } catch (error) {
+    return fail(error, json);
+  }
+}
+
+function parseCommandLine(argv: string[]): { command: string | undefined; args: string[]; options: Options } {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      file: { type: 'string' },
+      json: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+      policy: { type: 'string' },
+      at: { type: 'string' },
+      by: { type: 'string' },
+      k: { type: 'string', short: 'k' },
+      p: { type: 'string' },
+      days: { type: 'string' },
+      initial: { type: 'string' },
+      capacity: { type: 'string' },
+      latency: { type: 'string' },
+      target: { type: 'string' },
+      table: { type: 'string' },
+      'max-bonus': { type: 'string' }
+    }
+  });
+
+  const [command, ...args] = positionals;
+  return { command, args, options: values };
+}
+
+async function runCommand(command: string, args: string[], options: Options, file: string): Promise<CommandOutput> {
+  switch (command) {
+    case 'add':
+      return addCommand(args, options, file);
+    case 'remove':
+      return removeCommand(args, options, file);
+    case 'show':
+      return showCommand(args, file);
+    case 'stats':
+      return statsCommand(file);
+    case 'top':
+      return topCommand(options, file);
+    case 'project':
+      return projectCommand(options);
+    case 'min-bonus':
+      return minBonusCommand(options);
+    default:
+      throw new CliError(ReferralErrorType.INVALID_INPUT, `Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+async function addCommand(args: string[], options: Options, file: string): Promise<CommandOutput> {
+  const [referrer, candidate] = requireArgs(args, ['referrer', 'candidate']);
+  const at = stringOption(options, 'at');
+  const network = await loadNetwork(file);
+
+  unwrap(await network.addReferral(referrer, candidate, at === undefined ? {} : { createdAt: new Date(at) }));
+  await saveNetwork(network, file);
+
+  return { data: { referrer, candidate }, text: `${referrer} referred ${candidate}` };
+}
+
+async function removeCommand(args: string[], options: Options, file: string): Promise<CommandOutput> {
+  const [user] = requireArgs(args, ['user']);
+  const policy = (stringOption(options, 'policy') ?? 'orphan') as RemovalPolicy;
+  const network = await loadNetwork(file);
+
+  await requireUser(network, user);
+  const report = unwrap(await network.removeUser(user, { policy }));
+  await saveNetwork(network, file);
+
+  const lines = [`Removed ${report.removed.join(', ')}`];
+  if (report.reattached.length > 0) {
+    lines.push(`Reattached to ${report.newReferrer}: ${report.reattached.join(', ')}`);
+  }
+  if (report.orphaned.length > 0) {
+    lines.push(`Orphaned: ${report.orphaned.join(', ')}`);
+  }
+  return { data: report, text: lines.join('\n') };
+}
+
+async function showCommand(args: string[], file: string): Promise<CommandOutput> {
+  const [user] = requireArgs(args, ['user']);
+  const network = await loadNetwork(file);
+
+  const ancestors = unwrap(await network.ancestors(user));
+  const direct = unwrap(await network.directReferrals(user));
+  const all = unwrap(await network.allReferrals(user));
+
+  const data = { user, ancestors, directReferrals: direct, allReferrals: all };
+  const text = [
+    `User: ${user}`,
+    `Ancestors: ${formatList(ancestors)}`,
+    `Direct referrals (${direct.length}): ${formatList(direct)}`,
+    `All referrals (${all.length}): ${formatList(all)}`
+  ].join('\n');
+  return { data, text };
+}
+
+async function statsCommand(file: string): Promise<CommandOutput> {
+  const network = await loadNetwork(file);
+  const stats = unwrap(await network.getNetworkStats());
+
+  const text = [
+    `Total users: ${stats.totalUsers}`,
+    `Total referrals: ${stats.totalReferrals}`,
+    `Max depth: ${stats.maxDepth}`,
+    `Average referrals per user: ${stats.averageReferralsPerUser.toFixed(2)}`
+  ].join('\n');
+  return { data: stats, text };
+}
+
+async function topCommand(options: Options, file: string): Promise<CommandOutput> {
+  const by = stringOption(options, 'by') ?? 'reach';
+  if (by !== 'reach' && by !== 'flow') {
+    throw new CliError(ReferralErrorType.INVALID_INPUT, '--by must be "reach" or "flow"');
+  }
+  const k = integerOption(options, 'k') ?? 5;
+  const network = await loadNetwork(file);
+
+  const users = by === 'reach' ? await topKByReach(network, k) : await topKByFlowCentrality(network, k);
+  const scores = by === 'reach' ? unwrap(await network.reachScores()) : await flowCentralityScores(network);
+  const ranking = users.map((userId, index) => ({ rank: index + 1, userId, score: scores.get(userId) ?? 0 }));
+
+  const text = ranking.length === 0
+    ? 'No users'
+    : ranking.map(entry => `${entry.rank}. ${entry.userId} (${formatNumber(entry.score)})`).join('\n');
+  return { data: { by, ranking }, text };
+}
+
+async function projectCommand(options: Options): Promise<CommandOutput> {
+  const p = numberOption(options, 'p');
+  const days = integerOption(options, 'days');
+  if (p === undefined || days === undefined) {
+    throw new CliError(ReferralErrorType.INVALID_INPUT, 'project requires --p and --days');
+  }
+
+  const size = guard(() => expectedNetworkSize(p, days, growthOptions(options)));
+  return { data: { p, days, expectedNetworkSize: size }, text: `Expected network size after day ${days}: ${formatNumber(size)}` };
+}
+
+async function minBonusCommand(options: Options): Promise<CommandOutput> {
+  const days = integerOption(options, 'days');
+  const target = numberOption(options, 'target');
+  const table = stringOption(options, 'table');
+  if (days === undefined || target === undefined || table === undefined) {
+    throw new CliError(ReferralErrorType.INVALID_INPUT, 'min-bonus requires --days, --target and --table');
+  }
+
+  const adoptionProb = parseAdoptionTable(table);
+  const maxBonus = numberOption(options, 'max-bonus');
+  const report = guard(() => minBonusReport(days, target, adoptionProb, {
+    growth: growthOptions(options),
+    ...(maxBonus === undefined ? {} : { maxBonus })
+  }));
+
+  const text = report.bonus === null
+    ? `No bonus reaches ${target} users by day ${days} (${report.evaluations} evaluations)`
+    : `Minimum bonus: $${report.bonus} (projected size ${formatNumber(report.projectedSize ?? 0)}, ` +
+      `${report.evaluations} evaluations)`;
+  return { data: report, text };
+}
+
+// Network file persistence
+
+async function loadNetwork(file: string): Promise<ReferralNetwork> {
+  const network = new ReferralNetwork();
+  await network.initialize();
+
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return network;
+    }
+    throw new CliError(ReferralErrorType.STORAGE_ERROR, `Cannot read ${file}: ${(error as Error).message}`);
+  }
+
+  const report = await importJson(network, text);
+  const [first] = report.rejected;
+  if (first) {
+    throw new CliError(first.errorType, `${file} is invalid at ${first.location}: ${first.message}`);
+  }
+  return network;
+}
+
+async function saveNetwork(network: ReferralNetwork, file: string): Promise<void> {
+  // Write beside the target and rename so a crash never leaves a partial file
+  const temporary = `${file}.${process.pid}.tmp`;
+  try {
+    await writeFile(temporary, await exportJson(network), 'utf8');
+    await rename(temporary, file);
+  } catch (error) {
+    throw new CliError(ReferralErrorType.STORAGE_ERROR, `Cannot write ${file}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Report USER_NOT_FOUND instead of silently acting on an unknown user
+ */
+async function requireUser(network: ReferralNetwork, user: UserId): Promise<void> {
+  if (!unwrap(await network.userExists(user))) {
+    throw new ReferralError(ReferralErrorType.USER_NOT_FOUND, `User not found: ${user}`, { user });
+  }
+}
+
+// Argument helpers
+
+function requireArgs<const T extends readonly string[]>(args: string[], names: T): { [K in keyof T]: string } {
+  if (args.length !== names.length) {
+    throw new CliError(
+      ReferralErrorType.INVALID_INPUT,
+      `Expected ${names.map(name => `<${name}>`).join(' ')}, got ${args.length} argument(s)`
+    );
+  }
+  return args as unknown as { [K in keyof T]: string };
+}
+
+function stringOption(options: Options, name: string): string | undefined {
+  const value = options[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function numberOption(options: Options, name: string): number | undefined {
+  const value = stringOption(options, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new CliError(ReferralErrorType.INVALID_INPUT, `--${name} must be a number`);
+  }
+  return number;
+}
+
+function integerOption(options: Options, name: string): number | undefined {
+  const number = numberOption(options, name);
+  if (number !== undefined && (!Number.isInteger(number) || number < 0)) {
+    throw new CliError(ReferralErrorType.INVALID_INPUT, `--${name} must be a non-negative integer`);
+  }
+  return number;
+}
+
+function growthOptions(options: Options): GrowthModelOptions {
+  const initialReferrers = numberOption(options, 'initial');
+  const capacity = integerOption(options, 'capacity');
+  const joinLatency = integerOption(options, 'latency');
+  return {
+    ...(initialReferrers === undefined ? {} : { initialReferrers }),
+    ...(capacity === undefined ? {} : { capacity }),
+    ...(joinLatency === undefined ? {} : { joinLatency })
+  };
+}
+
+/**
+ * Parse "bonus=probability" points into a piecewise-linear adoption curve,
+ * clamped to the first and last points outside their range
+ */
+function parseAdoptionTable(table: string): (bonus: number) => number {
+  const points = table.split(',').map(entry => {
+    const [bonus, probability] = entry.split('=').map(part => Number(part.trim()));
+    if (bonus === undefined || probability === undefined || !Number.isFinite(bonus) || !Number.isFinite(probability)) {
+      throw new CliError(ReferralErrorType.INVALID_INPUT, `Invalid --table entry "${entry}", expected bonus=probability`);
+    }
+    return { bonus, probability };
+  });
+
+  points.sort((a, b) => a.bonus - b.bonus);
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const current = points[i];
+    if (previous && current && current.probability < previous.probability) {
+      throw new CliError(ReferralErrorType.INVALID_INPUT, '--table probabilities must not decrease as the bonus grows');
+    }
+  }
+
+  return (bonus: number): number => {
+    let previous = points[0];
+    if (!previous || bonus <= previous.bonus) {
+      return previous?.probability ?? 0;
+    }
+    for (const point of points) {
+      if (bonus <= point.bonus) {
+        const fraction = (bonus - previous.bonus) / (point.bonus - previous.bonus);
+        return previous.probability + fraction * (point.probability - previous.probability);
+      }
+      previous = point;
+    }
+    return previous.probability;
+  };
+}
+
+// Output helpers
+
+function unwrap<T>(result: Result<T, ReferralError>): T {
+  if (!result.success) {
+    throw result.error;
+  }
+  return result.data;
+}
+
+/**
+ * Run a computation whose argument errors are plain Errors, reporting them as INVALID_INPUT
+ */
+function guard<T>(compute: () => T): T {
+  try {
+    return compute();
+  } catch (error) {
+    if (error instanceof CliError || error instanceof ReferralError) {
+      throw error;
+    }
+    throw new CliError(ReferralErrorType.INVALID_INPUT, (error as Error).message);
+  }
+}
+
+function formatList(users: string[]): string {
+  return users.length === 0 ? '(none)' : users.join(', ');
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function fail(error: unknown, json: boolean): number {
+  const type = error instanceof ReferralError || error instanceof CliError
+    ? error.type
+    : ReferralErrorType.STORAGE_ERROR;
+  const message = error instanceof Error ? error.message : String(error);
+
+  process.stderr.write(
+    json ? `${JSON.stringify({ error: { type, message } })}\n` : `Error [${type}]: ${message}\n`
+  );
+  return 1;
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,163 @@
+/**
+ * Strongly connected components of the Referral Network
+ *
+ * When cycles are allowed, users that refer each other, directly or through
+ * others, form a strongly connected component. Collapsing every component into
+ * a single node (the condensation) always leaves a DAG, which gives depth and
+ * reach a well-defined meaning on cyclic networks.
+ */
+
+import { Condensation, UserId } from './types/index.js';
+
+/**
+ * Find the strongly connected components of a referral graph
+ *
+ * Uses an iterative version of Tarjan's algorithm, O(V + E), so long chains
+ * cannot overflow the call stack. Successors that are not among `users` are
+ * ignored.
+ *
+ * @param users - Every user in the graph
+ * @param successors - Looks up the users a user refers
+ * @returns Components in reverse topological order: every component reachable
+ * from a component is listed before it
+ */
+export function stronglyConnectedComponents(
+  users: Iterable<UserId>,
+  successors: (userId: UserId) => readonly UserId[]
+): UserId[][] {
+  const userSet = new Set(users);
+  const index = new Map<UserId, number>();
+  const lowLink = new Map<UserId, number>();
+  const onStack = new Set<UserId>();
+  const stack: UserId[] = [];
+  const components: UserId[][] = [];
+  let nextIndex = 0;
+
+  for (const start of userSet) {
+    if (index.has(start)) {
+      continue;
+    }
+
+    // Each frame tracks the next successor to visit, standing in for recursion
+    const frames: Array<{ userId: UserId; nextSuccessor: number }> = [{ userId: start, nextSuccessor: 0 }];
+    index.set(start, nextIndex);
+    lowLink.set(start, nextIndex);
+    nextIndex++;
+    stack.push(start);
+    onStack.add(start);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      if (!frame) {
+        break;
+      }
+      const next = successors(frame.userId);
+
+      if (frame.nextSuccessor < next.length) {
+        const successor = next[frame.nextSuccessor++];
+        if (successor === undefined || !userSet.has(successor)) {
+          continue;
+        }
+
+        const successorIndex = index.get(successor);
+        if (successorIndex === undefined) {
+          index.set(successor, nextIndex);
+          lowLink.set(successor, nextIndex);
+          nextIndex++;
+          stack.push(successor);
+          onStack.add(successor);
+          frames.push({ userId: successor, nextSuccessor: 0 });
+        } else if (onStack.has(successor)) {
+          lowLink.set(frame.userId, Math.min(lowLink.get(frame.userId) ?? 0, successorIndex));
+        }
+        continue;
+      }
+
+      // All successors finished: close a component if this user is its root
+      frames.pop();
+      const low = lowLink.get(frame.userId) ?? 0;
+      const caller = frames[frames.length - 1];
+      if (caller) {
+        lowLink.set(caller.userId, Math.min(lowLink.get(caller.userId) ?? 0, low));
+      }
+
+      if (low === index.get(frame.userId)) {
+        const component: UserId[] = [];
+        let member: UserId | undefined;
+        do {
+          member = stack.pop();
+          if (member === undefined) {
+            break;
+          }
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.userId);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Collapse every strongly connected component into a single node
+ *
+ * @param users - Every user in the graph
+ * @param successors - Looks up the users a user refers
+ * @returns The components, the component of every user, and the DAG of
+ * referrals between components
+ */
+export function condense(
+  users: Iterable<UserId>,
+  successors: (userId: UserId) => readonly UserId[]
+): Condensation {
+  const components = stronglyConnectedComponents(users, successors);
+  const componentOf = new Map<UserId, number>();
+  components.forEach((component, componentIndex) => {
+    for (const userId of component) {
+      componentOf.set(userId, componentIndex);
+    }
+  });
+
+  const componentSuccessors = components.map((component, componentIndex) => {
+    const distinct = new Set<number>();
+    for (const userId of component) {
+      for (const successor of successors(userId)) {
+        const successorComponent = componentOf.get(successor);
+        if (successorComponent !== undefined && successorComponent !== componentIndex) {
+          distinct.add(successorComponent);
+        }
+      }
+    }
+    return Array.from(distinct);
+  });
+
+  return { components, componentOf, successors: componentSuccessors };
+}
+
+/**
+ * Length of the longest referral chain, counting each component as one step
+ *
+ * On a DAG this is the longest path in referrals; a cycle adds no depth of
+ * its own, since its users refer each other rather than a new generation.
+ *
+ * @param condensation - Condensed graph from condense()
+ * @returns The number of referrals on the longest chain of components
+ */
+export function longestComponentChain(condensation: Condensation): number {
+  const height: number[] = [];
+  let longest = 0;
+
+  // Successors come first in reverse topological order, so their heights are known
+  condensation.successors.forEach((next, componentIndex) => {
+    let componentHeight = 0;
+    for (const successor of next) {
+      componentHeight = Math.max(componentHeight, (height[successor] ?? 0) + 1);
+    }
+    height[componentIndex] = componentHeight;
+    longest = Math.max(longest, componentHeight);
+  });
+
+  return longest;
+}
@@ -0,0 +1,57 @@
+/**
+ * Storage conformance run for the bundled backends
+ *
+ * Runs the conformance suite against InMemoryStorage and FileStorage, and
+ * against PostgreSQL and Redis when REFERRAL_POSTGRES_URL or
+ * REFERRAL_REDIS_URL points at a server. The database runs use their own
+ * table and key prefix and clear them before every test.
+ */
+
+import { after } from 'node:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  InMemoryStorage,
+  FileStorage,
+  PostgresStorage,
+  RedisStorage,
+  runStorageConformanceSuite
+} from './index.js';
+
+runStorageConformanceSuite(() => new InMemoryStorage(), 'InMemoryStorage');
+
+const directory = mkdtempSync(join(tmpdir(), 'referral-conformance-'));
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+let logCount = 0;
+runStorageConformanceSuite(
+  () => new FileStorage({ path: join(directory, `log-${++logCount}.ndjson`), compactThreshold: 5, fsync: false }),
+  'FileStorage'
+);
+
+const postgresUrl = process.env['REFERRAL_POSTGRES_URL'];
+if (postgresUrl) {
+  runStorageConformanceSuite(
+    () => new PostgresStorage({
+      connectionString: postgresUrl,
+      tableName: 'conformance',
+      allowMultipleReferrers: true,
+      allowCycles: true
+    }),
+    'PostgresStorage'
+  );
+}
+
+const redisUrl = process.env['REFERRAL_REDIS_URL'];
+if (redisUrl) {
+  runStorageConformanceSuite(
+    () => new RedisStorage({
+      connectionString: redisUrl,
+      keyPrefix: 'conformance',
+      allowMultipleReferrers: true,
+      allowCycles: true
+    }),
+    'RedisStorage'
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Tests for networks that allow referral cycles
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReferralNetwork, UserId } from './index.js';
+
+/**
+ * a → b → c → a, c → d, d → e → d, and x on its own. Entering the second
+ * cycle from outside gives d two referrers.
+ */
+async function network(): Promise<ReferralNetwork> {
+  const result = new ReferralNetwork({ allowCycles: true, allowMultipleReferrers: true });
+  const edges: Array<[UserId, UserId]> = [['a', 'b'], ['b', 'c'], ['c', 'a'], ['c', 'd'], ['d', 'e'], ['e', 'd']];
+  for (const [referrer, candidate] of edges) {
+    assert.equal((await result.addReferral(referrer, candidate)).success, true);
+  }
+  await result.addUser('x');
+  return result;
+}
+
+function sorted(components: UserId[][]): UserId[][] {
+  return components.map(component => [...component].sort());
+}
+
+describe('networks with cycles', () => {
+  it('groups users that reach each other into one component, successors first', async () => {
+    const referrals = await network();
+
+    const result = await referrals.stronglyConnectedComponents();
+
+    assert.ok(result.success);
+    const components = sorted(result.data);
+    assert.deepEqual([...components].sort(), [['a', 'b', 'c'], ['d', 'e'], ['x']]);
+    const indexOf = (user: UserId): number => components.findIndex(component => component.includes(user));
+    assert.ok(indexOf('d') < indexOf('a'));
+  });
+
+  it('condenses the components into a DAG', async () => {
+    const referrals = await network();
+
+    const result = await referrals.condensation();
+
+    assert.ok(result.success);
+    const { components, componentOf, successors } = result.data;
+    const cycle = componentOf.get('a');
+    const pair = componentOf.get('d');
+    assert.ok(cycle !== undefined && pair !== undefined);
+    assert.equal(componentOf.get('b'), cycle);
+    assert.equal(componentOf.get('e'), pair);
+    assert.deepEqual([...(components[cycle] ?? [])].sort(), ['a', 'b', 'c']);
+    assert.deepEqual(successors[cycle], [pair]);
+    assert.deepEqual(successors[pair], []);
+    assert.deepEqual(successors[componentOf.get('x') ?? -1], []);
+
+    // Depth is measured along the condensation, so the cycles add no length
+    const stats = await referrals.getNetworkStats();
+    assert.equal(stats.success ? stats.data.maxDepth : undefined, 1);
+  });
+
+  it('counts each user reachable around a cycle once', async () => {
+    const referrals = await network();
+
+    const all = await referrals.allReferrals('a');
+    assert.ok(all.success);
+    assert.deepEqual([...all.data].sort(), ['b', 'c', 'd', 'e']);
+    assert.deepEqual(await referrals.reachOf('d'), { success: true, data: 1 });
+  });
+
+  it('treats every user as its own component without cycles', async () => {
+    const referrals = new ReferralNetwork();
+    await referrals.addReferral('a', 'b');
+    await referrals.addReferral('b', 'c');
+
+    assert.deepEqual(await referrals.stronglyConnectedComponents(), { success: true, data: [['c'], ['b'], ['a']] });
+  });
+});
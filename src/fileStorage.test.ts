@@ -0,0 +1,138 @@
+/**
+ * Tests for reopening a FileStorage from its snapshot and log
+ */
+
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, appendFileSync, existsSync, readdirSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileStorage } from './index.js';
+
+const directory = mkdtempSync(join(tmpdir(), 'referral-file-storage-'));
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+let fileCount = 0;
+function newPath(): string {
+  return join(directory, `log-${++fileCount}.ndjson`);
+}
+
+function at(minute: number): Date {
+  return new Date(Date.UTC(2024, 0, 1, 0, minute));
+}
+
+async function open(path: string): Promise<FileStorage> {
+  const storage = new FileStorage({ path, compactThreshold: 1000, fsync: false });
+  await storage.initialize();
+  return storage;
+}
+
+/**
+ * Everything a reopened storage must reproduce
+ */
+async function contents(storage: FileStorage): Promise<unknown> {
+  return {
+    users: await storage.getAllUsers(),
+    userHistory: await storage.getUserHistory(),
+    referralHistory: await storage.getReferralHistory()
+  };
+}
+
+/**
+ * alice → bob → carol and alice → dave, with dave removed
+ */
+async function populate(storage: FileStorage): Promise<void> {
+  await storage.addReferral('alice', 'bob', at(1));
+  await storage.addReferral('bob', 'carol', at(2));
+  await storage.addReferral('alice', 'dave', at(3));
+  await storage.removeUser('dave', at(4));
+}
+
+describe('FileStorage', () => {
+  it('replays the log when reopened', async () => {
+    const path = newPath();
+    const storage = await open(path);
+    await populate(storage);
+    await storage.runInTransaction(async () => {
+      await storage.addReferral('carol', 'erin', at(5));
+      await storage.removeReferral('alice', 'bob', at(6));
+    });
+    const expected = await contents(storage);
+    await storage.destroy();
+
+    const reopened = await open(path);
+    assert.deepEqual(await contents(reopened), expected);
+    await reopened.destroy();
+  });
+
+  it('discards a final log line cut short by a crash', async () => {
+    const path = newPath();
+    const storage = await open(path);
+    await populate(storage);
+    const expected = await contents(storage);
+    await storage.destroy();
+    appendFileSync(path, '{"seq":5,"ops":[{"type":"addUser","userId":"ghost"');
+
+    const reopened = await open(path);
+    assert.deepEqual(await contents(reopened), expected);
+    assert.ok(readFileSync(path, 'utf8').endsWith('\n'));
+
+    // Later entries follow the cut-off point rather than the partial line
+    await reopened.addUser('frank', at(7));
+    const extended = await contents(reopened);
+    await reopened.destroy();
+    const again = await open(path);
+    assert.deepEqual(await contents(again), extended);
+    await again.destroy();
+  });
+
+  it('skips log entries already in the snapshot', async () => {
+    const path = newPath();
+    const storage = await open(path);
+    await populate(storage);
+    const compactedLog = readFileSync(path, 'utf8');
+    await storage.compact();
+    await storage.addReferral('carol', 'erin', at(5));
+    const expected = await contents(storage);
+    await storage.destroy();
+
+    // A crash between writing the snapshot and truncating the log leaves the
+    // snapshot's entries in front of the newer ones
+    writeFileSync(path, compactedLog + readFileSync(path, 'utf8'));
+
+    const reopened = await open(path);
+    assert.deepEqual(await contents(reopened), expected);
+    await reopened.destroy();
+  });
+
+  it('reopens from a snapshot after an explicit compact', async () => {
+    const path = newPath();
+    const storage = await open(path);
+    await populate(storage);
+    await storage.compact();
+    const expected = await contents(storage);
+    await storage.destroy();
+
+    assert.equal(readFileSync(path, 'utf8'), '');
+    assert.ok(existsSync(`${path}.snapshot`));
+    const reopened = await open(path);
+    assert.deepEqual(await contents(reopened), expected);
+    await reopened.destroy();
+  });
+
+  // Open descriptors are only listed where /proc is available
+  it('opens the log once when initialize calls overlap', { skip: !existsSync('/proc/self/fd') }, async () => {
+    const path = newPath();
+    const storage = await open(path);
+    await populate(storage);
+    const expected = await contents(storage);
+    await storage.destroy();
+
+    const descriptors = readdirSync('/proc/self/fd').length;
+    const reopened = new FileStorage({ path, fsync: false });
+    await Promise.all([reopened.initialize(), reopened.initialize()]);
+    assert.deepEqual(await contents(reopened), expected);
+    await reopened.destroy();
+    assert.equal(readdirSync('/proc/self/fd').length, descriptors);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Tests for the expected growth projection
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { expectedNetworkSize, expectedGrowthCurve } from './index.js';
+
+describe('expectedNetworkSize', () => {
+  it('matches a small case worked out by hand', () => {
+    // One referrer with capacity 2 and p = 1/2:
+    //   day 0: the referrer succeeds half the time          → 1 + 0.5
+    //   day 1: the referrer again, plus half a new referrer → 1.5 + 0.5 + 0.25
+    //   day 2: the referrer has capacity left 3/4 of the time, and the 0.5
+    //          referrals of day 0 and 0.75 of day 1 are all active
+    //                                                       → 2.25 + 0.375 + 0.25 + 0.375
+    const options = { initialReferrers: 1, capacity: 2, joinLatency: 1 };
+
+    assert.deepEqual(expectedGrowthCurve(0.5, 2, options), [1.5, 2.25, 3.25]);
+    assert.equal(expectedNetworkSize(0.5, 1, options), 2.25);
+  });
+
+  it('adds one user per day along a chain of certain referrals', () => {
+    const options = { initialReferrers: 1, capacity: 1, joinLatency: 1 };
+
+    assert.deepEqual(expectedGrowthCurve(1, 4, options), [2, 3, 4, 5, 6]);
+  });
+
+  it('stays at the initial referrers when nobody adopts', () => {
+    assert.equal(expectedNetworkSize(0, 30), 100);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Growth projection functions for the Referral Network
+ *
+ * These functions model expected network growth over discrete days using
+ * the referral capacity model from the specification.
+ */
+
+/**
+ * Parameters of the growth model
+ */
+export interface GrowthModelOptions {
+  /** Number of active referrers at the start of day 0 (default: 100) */
+  initialReferrers?: number;
+  /** Lifetime number of successful referrals per referrer (default: 10) */
+  capacity?: number;
+  /** Days before a newly referred user becomes active (default: 1) */
+  joinLatency?: number;
+}
+
+const DEFAULT_GROWTH_OPTIONS: Required<GrowthModelOptions> = {
+  initialReferrers: 100,
+  capacity: 10,
+  joinLatency: 1
+};
+
+/**
+ * Calculate the expected network size at the end of a given day
+ *
+ * Each active referrer makes at most one successful referral per day with
+ * probability p. A success consumes one unit of the referrer's remaining
+ * capacity and adds a new referrer with full capacity who becomes active
+ * `joinLatency` days later.
+ *
+ * The result is exact: by linearity of expectation, the expected number of
+ * active referrers with each remaining capacity evolves linearly, so the
+ * expected counts are propagated day by day in O(days · capacity) time.
+ *
+ * @param p - Per-day probability of a successful referral (0 ≤ p ≤ 1)
+ * @param days - The last day of the period (days 0..days are simulated)
+ * @param options - Overrides for the model parameters
+ * @returns The initial referrers plus the expected number of successful referrals
+ */
+export function expectedNetworkSize(p: number, days: number, options: GrowthModelOptions = {}): number {
+  return projectExpectedGrowth(p, days, options);
+}
+
+/**
+ * Calculate the expected network size at the end of every day
+ *
+ * @param p - Per-day probability of a successful referral (0 ≤ p ≤ 1)
+ * @param days - The last day of the period
+ * @param options - Overrides for the model parameters
+ * @returns Array whose entry d is the expected network size at the end of day d
+ */
+export function expectedGrowthCurve(p: number, days: number, options: GrowthModelOptions = {}): number[] {
+  const curve: number[] = [];
+  projectExpectedGrowth(p, days, options, (_day, size) => curve.push(size));
+  return curve;
+}
+
+/**
+ * Resolve and validate growth model options against the defaults
+ */
+export function resolveGrowthOptions(options: GrowthModelOptions): Required<GrowthModelOptions> {
+  const resolved = { ...DEFAULT_GROWTH_OPTIONS, ...options };
+
+  if (!Number.isFinite(resolved.initialReferrers) || resolved.initialReferrers < 0) {
+    throw new Error('initialReferrers must be non-negative');
+  }
+  if (!Number.isInteger(resolved.capacity) || resolved.capacity < 0) {
+    throw new Error('capacity must be a non-negative integer');
+  }
+  if (!Number.isInteger(resolved.joinLatency) || resolved.joinLatency < 1) {
+    throw new Error('joinLatency must be a positive integer');
+  }
+
+  return resolved;
+}
+
+/**
+ * Validate the probability and horizon shared by all growth functions
+ */
+export function validateGrowthInput(p: number, days: number): void {
+  if (!Number.isFinite(p) || p < 0 || p > 1) {
+    throw new Error('p must be a probability between 0 and 1');
+  }
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error('days must be a non-negative integer');
+  }
+}
+
+function projectExpectedGrowth(
+  p: number,
+  days: number,
+  options: GrowthModelOptions,
+  onDay?: (day: number, size: number) => void
+): number {
+  const { initialReferrers, capacity, joinLatency } = resolveGrowthOptions(options);
+  validateGrowthInput(p, days);
+
+  let size = initialReferrers;
+  if (p === 0 || capacity === 0 || initialReferrers === 0) {
+    if (onDay) {
+      for (let day = 0; day <= days; day++) {
+        onDay(day, size);
+      }
+    }
+    return size;
+  }
+
+  // active[c] = expected number of active referrers with c units of capacity left
+  let active = new Float64Array(capacity + 1);
+  let next = new Float64Array(capacity + 1);
+  active[capacity] = initialReferrers;
+
+  // Ring buffer of expected arrivals, indexed by the day they become active
+  const arrivals = new Float64Array(joinLatency);
+  const q = 1 - p;
+
+  for (let day = 0; day <= days; day++) {
+    const slot = day % joinLatency;
+    active[capacity] = (active[capacity] ?? 0) + (arrivals[slot] ?? 0);
+
+    let activeCount = 0;
+    for (let c = 1; c <= capacity; c++) {
+      activeCount += active[c] ?? 0;
+    }
+
+    const successes = p * activeCount;
+    size += successes;
+    onDay?.(day, size);
+    // The slot just drained is the one that becomes active joinLatency days from now
+    arrivals[slot] = successes;
+
+    // Referrers that fail keep their capacity; successful ones move down a level
+    next.fill(0);
+    for (let c = 1; c <= capacity; c++) {
+      const count = active[c] ?? 0;
+      next[c] = (next[c] ?? 0) + q * count;
+      next[c - 1] = (next[c - 1] ?? 0) + p * count;
+    }
+    [active, next] = [next, active];
+  }
+
+  return size;
+}
@@ -0,0 +1,63 @@
+/**
+ * Tests for historical views from ReferralNetwork.asOf
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReferralNetwork, ReferralNetworkView } from './index.js';
+
+function at(minute: number): Date {
+  return new Date(Date.UTC(2024, 0, 1, 0, minute));
+}
+
+/**
+ * alice → bob → carol, with bob removed at minute 7; viewed at minute 6
+ */
+async function historicalView(): Promise<ReferralNetworkView> {
+  let now = at(0);
+  const network = new ReferralNetwork({ clock: { now: (): Date => now } });
+  await network.addReferral('alice', 'bob', { createdAt: at(1) });
+  await network.addReferral('bob', 'carol', { createdAt: at(5) });
+  now = at(7);
+  await network.removeUser('bob');
+
+  const result = await network.asOf(at(6));
+  assert.ok(result.success);
+  return result.data;
+}
+
+describe('asOf', () => {
+  it('shows users removed after the date', async () => {
+    const view = await historicalView();
+
+    assert.deepEqual(await view.allReferrals('alice'), { success: true, data: ['bob', 'carol'] });
+  });
+
+  it('exposes no way to change the snapshot', async () => {
+    const view = await historicalView();
+
+    for (const method of ['addReferral', 'addReferrals', 'addUser', 'removeUser', 'reassignReferrer', 'initialize']) {
+      assert.equal(method in view, false, `${method} is not exposed`);
+    }
+    assert.equal(Object.isFrozen(view), true);
+    assert.throws(() => Object.assign(view, { addReferral: (): void => undefined }));
+  });
+
+  it('hands out copies of its users and referrals', async () => {
+    const view = await historicalView();
+
+    const users = await view.getAllUsers();
+    assert.ok(users.success);
+    users.data.find(user => user.userId === 'alice')?.directReferrals.push('mallory');
+    const relationships = await view.getAllReferralRelationships();
+    assert.ok(relationships.success);
+    for (const relationship of relationships.data) {
+      relationship.candidate = 'mallory';
+    }
+
+    assert.deepEqual(await view.directReferrals('alice'), { success: true, data: ['bob'] });
+    const again = await view.getAllReferralRelationships();
+    assert.ok(again.success);
+    assert.deepEqual(again.data.map(relationship => relationship.candidate), ['bob', 'carol']);
+  });
+});
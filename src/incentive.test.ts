@@ -0,0 +1,74 @@
+/**
+ * Tests for the bonus search in minBonusForTarget
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { minBonusForTarget, minBonusReport, expectedNetworkSize, AdoptionProbability } from './index.js';
+
+const DAYS = 30;
+const growth = { initialReferrers: 10, capacity: 5 };
+
+/**
+ * Probability rising linearly to certainty at a bonus of 1000, recording every call
+ */
+function countingAdoption(): { adoptionProb: AdoptionProbability; calls: number[] } {
+  const calls: number[] = [];
+  return {
+    calls,
+    adoptionProb: (bonus: number): number => {
+      calls.push(bonus);
+      return Math.min(1, bonus / 1000);
+    }
+  };
+}
+
+describe('minBonusForTarget', () => {
+  it('returns the smallest bonus that reaches the target', () => {
+    const target = expectedNetworkSize(0.37, DAYS, growth);
+    const { adoptionProb } = countingAdoption();
+
+    // Every bonus below the answer falls short
+    let expected = 0;
+    while (expectedNetworkSize(adoptionProb(expected), DAYS, growth) < target) {
+      expected += 10;
+    }
+
+    assert.equal(expected, 370);
+    assert.equal(minBonusForTarget(DAYS, target, adoptionProb, { growth }), expected);
+  });
+
+  it('evaluates each bonus at most once and logarithmically often', () => {
+    const target = expectedNetworkSize(0.37, DAYS, growth);
+    const { adoptionProb, calls } = countingAdoption();
+
+    const report = minBonusReport(DAYS, target, adoptionProb, { growth });
+
+    assert.equal(report.bonus, 370);
+    assert.equal(report.projectedSize, target);
+    assert.equal(report.evaluations, calls.length);
+    assert.equal(new Set(calls).size, calls.length);
+    // Probing steps 0, 1, 2, …, 64 and bisecting down to step 37 takes 8 + 5 evaluations
+    assert.ok(calls.length <= 2 * Math.log2(64) + 1, `${calls.length} evaluations`);
+  });
+
+  it('gives up without evaluating when certain adoption cannot reach the target', () => {
+    const { adoptionProb, calls } = countingAdoption();
+    const target = expectedNetworkSize(1, DAYS, growth) + 1;
+
+    assert.deepEqual(minBonusReport(DAYS, target, adoptionProb, { growth }), {
+      bonus: null,
+      evaluations: 0,
+      projectedSize: null
+    });
+    assert.deepEqual(calls, []);
+  });
+
+  it('stays within maxBonus', () => {
+    const target = expectedNetworkSize(0.37, DAYS, growth);
+    const { adoptionProb, calls } = countingAdoption();
+
+    assert.equal(minBonusForTarget(DAYS, target, adoptionProb, { growth, maxBonus: 300 }), null);
+    assert.ok(calls.every(bonus => bonus <= 300));
+  });
+});
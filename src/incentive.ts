@@ -0,0 +1,172 @@
+/**
+ * Incentive optimization functions for the Referral Network
+ *
+ * These functions search for the cheapest referral bonus that reaches a
+ * growth target, treating the adoption probability function as expensive.
+ */
+
+import { expectedNetworkSize, GrowthModelOptions } from './growth.js';
+
+/**
+ * Maps a bonus amount to the per-day referral probability it produces.
+ * Must be monotonically non-decreasing in the bonus.
+ */
+export type AdoptionProbability = (bonus: number) => number;
+
+/**
+ * Options for the bonus search
+ */
+export interface IncentiveOptions {
+  /** Largest bonus that may be offered (default: unbounded) */
+  maxBonus?: number;
+  /** Step between offered bonus amounts (default: 10) */
+  increment?: number;
+  /** Overrides for the growth model parameters */
+  growth?: GrowthModelOptions;
+}
+
+/**
+ * Outcome of a bonus search
+ */
+export interface MinBonusReport {
+  /** The smallest bonus reaching the target, or null if none can */
+  bonus: number | null;
+  /** Number of times adoptionProb was evaluated */
+  evaluations: number;
+  /** Expected network size at the chosen bonus, or null if none was chosen */
+  projectedSize: number | null;
+}
+
+/**
+ * Find the smallest bonus whose expected network size reaches the target
+ *
+ * @param days - The last day of the projection period
+ * @param targetNetworkSize - The network size to reach by the end of the period
+ * @param adoptionProb - Monotonically non-decreasing bonus → probability function
+ * @param options - Bonus cap, increment and growth model overrides
+ * @returns The smallest qualifying bonus, or null if no bonus can reach the target
+ */
+export function minBonusForTarget(
+  days: number,
+  targetNetworkSize: number,
+  adoptionProb: AdoptionProbability,
+  options: IncentiveOptions = {}
+): number | null {
+  return minBonusReport(days, targetNetworkSize, adoptionProb, options).bonus;
+}
+
+/**
+ * Find the smallest bonus reaching the target and report how it was found
+ *
+ * Because adoptionProb is monotone, so is the projected network size. The
+ * search probes exponentially growing bonuses until one reaches the target,
+ * then binary searches between the last failing and first passing probe.
+ * Every adoptionProb result is memoized, so no bonus is evaluated twice.
+ *
+ * Targets above the size reached with certain adoption (p = 1) cannot be
+ * met by any bonus and are rejected without calling adoptionProb.
+ *
+ * @param days - The last day of the projection period
+ * @param targetNetworkSize - The network size to reach by the end of the period
+ * @param adoptionProb - Monotonically non-decreasing bonus → probability function
+ * @param options - Bonus cap, increment and growth model overrides
+ * @returns The chosen bonus, the number of adoptionProb evaluations and the projected size
+ */
+export function minBonusReport(
+  days: number,
+  targetNetworkSize: number,
+  adoptionProb: AdoptionProbability,
+  options: IncentiveOptions = {}
+): MinBonusReport {
+  const increment = options.increment ?? 10;
+  const growth = options.growth ?? {};
+
+  if (!Number.isFinite(targetNetworkSize)) {
+    throw new Error('targetNetworkSize must be a finite number');
+  }
+  if (!Number.isFinite(increment) || increment <= 0) {
+    throw new Error('increment must be positive');
+  }
+  if (options.maxBonus !== undefined && (Number.isNaN(options.maxBonus) || options.maxBonus < 0)) {
+    throw new Error('maxBonus must be non-negative');
+  }
+
+  const probabilities = new Map<number, number>();
+  const sizes = new Map<number, number>();
+
+  const probabilityAt = (bonus: number): number => {
+    let probability = probabilities.get(bonus);
+    if (probability === undefined) {
+      probability = adoptionProb(bonus);
+      if (!Number.isFinite(probability) || probability < 0 || probability > 1) {
+        throw new Error(`adoptionProb(${bonus}) returned ${probability}, expected a probability between 0 and 1`);
+      }
+      probabilities.set(bonus, probability);
+    }
+    return probability;
+  };
+
+  // Sizes are keyed by step index so the bonus is always an exact multiple
+  const sizeAt = (step: number): number => {
+    let size = sizes.get(step);
+    if (size === undefined) {
+      size = expectedNetworkSize(probabilityAt(step * increment), days, growth);
+      sizes.set(step, size);
+    }
+    return size;
+  };
+
+  const report = (step: number | null): MinBonusReport => ({
+    bonus: step === null ? null : step * increment,
+    evaluations: probabilities.size,
+    projectedSize: step === null ? null : sizeAt(step)
+  });
+
+  // With certain adoption every referrer succeeds daily; no bonus can do better
+  if (targetNetworkSize > expectedNetworkSize(1, days, growth)) {
+    return report(null);
+  }
+
+  const maxBonus = options.maxBonus ?? Number.MAX_SAFE_INTEGER;
+  const maxStep = Math.floor(maxBonus / increment);
+
+  if (sizeAt(0) >= targetNetworkSize) {
+    return report(0);
+  }
+
+  // Exponential probing: find a passing step, keeping the last failing one
+  let failing = 0;
+  let passing: number | null = null;
+  let probe = 1;
+  while (passing === null && failing < maxStep) {
+    const step = Math.min(probe, maxStep);
+    if (sizeAt(step) >= targetNetworkSize) {
+      passing = step;
+    } else {
+      failing = step;
+      // Certain adoption cannot improve further, so no larger bonus helps
+      if (probabilityAt(step * increment) >= 1) {
+        break;
+      }
+      probe *= 2;
+    }
+  }
+
+  if (passing === null) {
+    return report(null);
+  }
+
+  // Binary search for the smallest passing step in (failing, passing]
+  let lower = failing;
+  let upper = passing;
+  while (upper - lower > 1) {
+    const middle = lower + Math.floor((upper - lower) / 2);
+    if (sizeAt(middle) >= targetNetworkSize) {
+      upper = middle;
+    } else {
+      lower = middle;
+    }
+  }
+
+  return report(upper);
+}
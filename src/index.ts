@@ -4,6 +4,7 @@
 
 // Core classes
 export { ReferralNetwork } from './ReferralNetwork.js';
+export type { ReferralNetworkView } from './ReferralNetwork.js';
 
 // Types and interfaces
 export * from './types/index.js';
@@ -11,10 +12,65 @@ export * from './types/index.js';
 // Storage interfaces and implementations
 export * from './storage/interfaces.js';
 export { InMemoryStorage } from './storage/InMemoryStorage.js';
+export type { InMemoryStorageState } from './storage/InMemoryStorage.js';
+export { FileStorage } from './storage/FileStorage.js';
+export type { FileStorageOptions } from './storage/FileStorage.js';
+export { PostgresStorage } from './storage/PostgresStorage.js';
+export type { PostgresStorageOptions } from './storage/PostgresStorage.js';
+export { RedisStorage } from './storage/RedisStorage.js';
+export type { RedisStorageOptions } from './storage/RedisStorage.js';
 export { StorageFactory } from './storage/StorageFactory.js';
+export type { StorageType } from './storage/StorageFactory.js';
+export { ReachIndex } from './storage/ReachIndex.js';
+export { runStorageConformanceSuite } from './storage/conformance.js';
+export type { ConformanceStorageFactory } from './storage/conformance.js';
 
 // Influence analysis functions
-export { topKByReach, topKByFlowCentrality } from './influence.js';
+export { topKByReach, topKByFlowCentrality, flowCentralityScores } from './influence.js';
+
+// Cycle analysis functions
+export { stronglyConnectedComponents, condense, longestComponentChain } from './components.js';
+
+// Growth projection functions
+export { expectedNetworkSize, expectedGrowthCurve } from './growth.js';
+export type { GrowthModelOptions } from './growth.js';
+export { simulateGrowth, validateGrowthSimulation, createSeededRandom } from './simulation.js';
+export type {
+  RandomSource,
+  SimulationOptions,
+  DailyGrowthStats,
+  SimulationResult,
+  SimulationValidation
+} from './simulation.js';
+
+// Incentive optimization functions
+export { minBonusForTarget, minBonusReport } from './incentive.js';
+export type { AdoptionProbability, IncentiveOptions, MinBonusReport } from './incentive.js';
+
+// Serialization functions
+export {
+  exportNetwork,
+  importNetwork,
+  exportDot,
+  exportGraphML,
+  exportJson,
+  exportCsv,
+  importDot,
+  importGraphML,
+  importJson,
+  importCsv,
+  NETWORK_DOCUMENT_VERSION
+} from './serialization.js';
+export type {
+  SerializationFormat,
+  NetworkDocument,
+  ImportRejection,
+  ImportReport
+} from './serialization.js';
+
+// HTTP API server
+export { ReferralHttpServer, createReferralServer, HTTP_STATUS_BY_ERROR_TYPE } from './server.js';
+export type { ReferralServerOptions } from './server.js';
 
 // Re-export commonly used types for convenience
 export type {
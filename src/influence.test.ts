@@ -0,0 +1,47 @@
+/**
+ * Tests for flow centrality
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReferralNetwork, UserId, flowCentralityScores, topKByFlowCentrality } from './index.js';
+
+async function network(edges: Array<[UserId, UserId]>): Promise<ReferralNetwork> {
+  const result = new ReferralNetwork({ allowMultipleReferrers: true });
+  for (const [referrer, candidate] of edges) {
+    assert.equal((await result.addReferral(referrer, candidate)).success, true);
+  }
+  return result;
+}
+
+describe('flowCentralityScores', () => {
+  it('splits the credit between tied shortest paths', async () => {
+    // a reaches d through b and through c; e hangs off d
+    const referrals = await network([['a', 'b'], ['a', 'c'], ['b', 'd'], ['c', 'd'], ['d', 'e']]);
+
+    const scores = await flowCentralityScores(referrals);
+
+    // b and c each carry half of a → d and a → e; d carries a → e, b → e and c → e
+    assert.deepEqual(Object.fromEntries(scores), { a: 0, b: 1, c: 1, d: 3, e: 0 });
+  });
+
+  it('does not depend on the order referrals were made', async () => {
+    const forward = await network([['a', 'b'], ['a', 'c'], ['b', 'd'], ['c', 'd']]);
+    const reversed = await network([['a', 'c'], ['a', 'b'], ['c', 'd'], ['b', 'd']]);
+
+    const forwardScores = Object.fromEntries(await flowCentralityScores(forward));
+    const reversedScores = Object.fromEntries(await flowCentralityScores(reversed));
+
+    assert.deepEqual(forwardScores, reversedScores);
+    assert.equal(forwardScores['b'], 0.5);
+  });
+
+  it('counts whole paths in a tree', async () => {
+    const referrals = await network([['a', 'b'], ['b', 'c'], ['b', 'd'], ['d', 'e']]);
+
+    const scores = await flowCentralityScores(referrals);
+
+    assert.deepEqual(Object.fromEntries(scores), { a: 0, b: 3, c: 0, d: 2, e: 0 });
+    assert.deepEqual(await topKByFlowCentrality(referrals, 2), ['b', 'd']);
+  });
+});
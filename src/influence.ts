@@ -2,27 +2,13 @@
  * Influence analysis functions for the Referral Network
  * 
  * These functions analyze user influence within the network using various metrics
- * without mutating the network state.
+ * without mutating the network state. They accept a network or a historical
+ * view of one from ReferralNetwork.asOf.
  */
 
-import { ReferralNetwork } from './ReferralNetwork.js';
+import { ReferralNetworkView } from './ReferralNetwork.js';
 import { UserId } from './types/index.js';
 
-/**
- * Calculate the reach (number of distinct descendants) for a user
- * 
- * @param network - The referral network to analyze
- * @param user - The user to calculate reach for
- * @returns Promise resolving to the number of distinct descendants
- */
-async function calculateReach(network: ReferralNetwork, user: UserId): Promise<number> {
-  const result = await network.allReferrals(user);
-  if (!result.success) {
-    throw result.error;
-  }
-  return result.data.length;
-}
-
 /**
  * Get the top k users ranked by reach (number of distinct descendants)
  * 
@@ -33,41 +19,29 @@ async function calculateReach(network: ReferralNetwork, user: UserId): Promise<n
  * @param k - The number of top users to return (default: 5, undefined: all users)
  * @returns Promise resolving to array of user IDs sorted by reach (descending)
  */
-export async function topKByReach(network: ReferralNetwork, k: number = 5): Promise<UserId[]> {
+export async function topKByReach(network: ReferralNetworkView, k: number = 5): Promise<UserId[]> {
   if (k !== undefined && k < 0) {
     throw new Error('k must be non-negative');
   }
 
-  // Get all users in the network
-  const allUsersResult = await network.getAllUsers();
-  if (!allUsersResult.success) {
-    throw allUsersResult.error;
+  const scoresResult = await network.reachScores();
+  if (!scoresResult.success) {
+    throw scoresResult.error;
   }
 
-  const allUsers = allUsersResult.data;
-  
+  const scores = scoresResult.data;
+
   // If k is 0 or there are no users, return empty array
-  if (k === 0 || allUsers.length === 0) {
+  if (k === 0 || scores.size === 0) {
     return [];
   }
 
   // If k is undefined, return all users
   if (k === undefined) {
-    k = allUsers.length;
+    k = scores.size;
   }
 
-  // Calculate reach for each user
-  const userReachPairs: Array<{ userId: UserId; reach: number }> = [];
-  
-  for (const user of allUsers) {
-    try {
-      const reach = await calculateReach(network, user.userId);
-      userReachPairs.push({ userId: user.userId, reach });
-    } catch (error) {
-      // Skip users that cause errors (e.g., if they don't exist)
-      console.warn(`Failed to calculate reach for user ${user.userId}:`, error);
-    }
-  }
+  const userReachPairs = Array.from(scores, ([userId, reach]) => ({ userId, reach }));
 
   // Sort by reach in descending order, then by userId for stable sorting
   userReachPairs.sort((a, b) => {
@@ -82,90 +56,117 @@ export async function topKByReach(network: ReferralNetwork, k: number = 5): Prom
 }
 
 /**
- * Find the shortest path between two users in the referral network
- * 
- * @param network - The referral network to analyze
- * @param source - The source user
- * @param target - The target user
- * @returns Promise resolving to the shortest path as an array of user IDs, or null if no path exists
+ * Snapshot of the referral graph with users mapped to dense indices
  */
-async function findShortestPath(network: ReferralNetwork, source: UserId, target: UserId): Promise<UserId[] | null> {
-  if (source === target) {
-    return [source];
-  }
-
-  // Use BFS to find shortest path
-  const queue: Array<{ userId: UserId; path: UserId[] }> = [{ userId: source, path: [source] }];
-  const visited = new Set<UserId>();
-  visited.add(source);
-
-  while (queue.length > 0) {
-    const { userId, path } = queue.shift()!;
+interface AdjacencySnapshot {
+  userIds: UserId[];
+  children: number[][];
+}
 
-    // Get direct referrals (children) of current user
-    const directReferralsResult = await network.directReferrals(userId);
-    if (!directReferralsResult.success) {
-      continue;
-    }
+/**
+ * Read the whole referral graph once so analyses can run without
+ * awaiting storage for every traversal step
+ *
+ * @param network - The referral network to snapshot
+ * @returns Promise resolving to the user list and index-based adjacency lists
+ */
+async function buildAdjacencySnapshot(network: ReferralNetworkView): Promise<AdjacencySnapshot> {
+  const allUsersResult = await network.getAllUsers();
+  if (!allUsersResult.success) {
+    throw allUsersResult.error;
+  }
 
-    for (const child of directReferralsResult.data) {
-      if (child === target) {
-        return [...path, child];
-      }
+  const userIds = allUsersResult.data.map(u => u.userId);
+  const indexOf = new Map<UserId, number>();
+  userIds.forEach((userId, index) => indexOf.set(userId, index));
 
-      if (!visited.has(child)) {
-        visited.add(child);
-        queue.push({ userId: child, path: [...path, child] });
+  const children = allUsersResult.data.map(user => {
+    const childIndices: number[] = [];
+    for (const childId of user.directReferrals) {
+      const childIndex = indexOf.get(childId);
+      if (childIndex !== undefined) {
+        childIndices.push(childIndex);
       }
     }
-  }
+    return childIndices;
+  });
 
-  return null; // No path found
+  return { userIds, children };
 }
 
 /**
- * Calculate flow centrality for a user
- * 
+ * Calculate flow centrality for every user
+ *
  * Flow centrality(u) is defined as: for ordered pairs (s, t) of distinct users 
  * with s ≠ u ≠ t, count how often u lies on a shortest directed path from s to t.
  * Endpoints do not count as on the path.
  * 
+ * Uses Brandes' algorithm on a single adjacency snapshot: one BFS per source
+ * counts shortest paths, then dependencies are accumulated in reverse BFS
+ * order, for O(V·E) overall. When several shortest paths connect s and t,
+ * each intermediate user is credited with the fraction of those paths it
+ * lies on, so the result does not depend on child ordering. In a tree every
+ * shortest path is unique and all scores are integers. Cycles need no special
+ * handling: a shortest path never revisits a user, so BFS distances already
+ * exclude walks around a cycle.
+ * 
  * @param network - The referral network to analyze
- * @param user - The user to calculate flow centrality for
- * @returns Promise resolving to the flow centrality score
+ * @returns Promise resolving to a map from user ID to flow centrality score
  */
-async function calculateFlowCentrality(network: ReferralNetwork, user: UserId): Promise<number> {
-  // Get all users in the network
-  const allUsersResult = await network.getAllUsers();
-  if (!allUsersResult.success) {
-    throw allUsersResult.error;
-  }
+export async function flowCentralityScores(network: ReferralNetworkView): Promise<Map<UserId, number>> {
+  const { userIds, children } = await buildAdjacencySnapshot(network);
+  const n = userIds.length;
+  const scores = new Float64Array(n);
+
+  const distance = new Int32Array(n);
+  const pathCounts = new Float64Array(n);
+  const dependency = new Float64Array(n);
+  const order = new Int32Array(n);
+
+  for (let source = 0; source < n; source++) {
+    distance.fill(-1);
+    pathCounts.fill(0);
+    dependency.fill(0);
+
+    // BFS from source, recording visit order and shortest path counts
+    distance[source] = 0;
+    pathCounts[source] = 1;
+    order[0] = source;
+    let head = 0;
+    let tail = 1;
+
+    while (head < tail) {
+      const current = order[head++] ?? 0;
+      const nextDistance = (distance[current] ?? 0) + 1;
+      for (const child of children[current] ?? []) {
+        if (distance[child] === -1) {
+          distance[child] = nextDistance;
+          order[tail++] = child;
+        }
+        if (distance[child] === nextDistance) {
+          pathCounts[child] = (pathCounts[child] ?? 0) + (pathCounts[current] ?? 0);
+        }
+      }
+    }
 
-  const allUsers = allUsersResult.data.map(u => u.userId);
-  
-  let flowCentrality = 0;
-
-  // For each pair (s, t) where s ≠ user ≠ t
-  for (const s of allUsers) {
-    if (s === user) continue;
-    
-    for (const t of allUsers) {
-      if (t === user || t === s) continue;
-      
-      // Find shortest path from s to t
-      const path = await findShortestPath(network, s, t);
-      
-      if (path && path.length > 2) { // Path must have at least 3 nodes (s, user, t)
-        // Check if user is on the path (excluding endpoints)
-        const middleNodes = path.slice(1, -1);
-        if (middleNodes.includes(user)) {
-          flowCentrality++;
+    // Accumulate dependencies from the farthest users back towards the source
+    for (let i = tail - 1; i > 0; i--) {
+      const current = order[i] ?? 0;
+      const currentDistance = distance[current] ?? 0;
+      let total = 0;
+      for (const child of children[current] ?? []) {
+        if (distance[child] === currentDistance + 1) {
+          total += ((pathCounts[current] ?? 0) / (pathCounts[child] ?? 1)) * (1 + (dependency[child] ?? 0));
         }
       }
+      dependency[current] = total;
+      scores[current] = (scores[current] ?? 0) + total;
     }
   }
 
-  return flowCentrality;
+  const result = new Map<UserId, number>();
+  userIds.forEach((userId, index) => result.set(userId, scores[index] ?? 0));
+  return result;
 }
 
 /**
@@ -179,41 +180,24 @@ async function calculateFlowCentrality(network: ReferralNetwork, user: UserId):
  * @param k - The number of top users to return (default: 5, undefined: all users)
  * @returns Promise resolving to array of user IDs sorted by flow centrality (descending)
  */
-export async function topKByFlowCentrality(network: ReferralNetwork, k: number = 5): Promise<UserId[]> {
+export async function topKByFlowCentrality(network: ReferralNetworkView, k: number = 5): Promise<UserId[]> {
   if (k !== undefined && k < 0) {
     throw new Error('k must be non-negative');
   }
 
-  // Get all users in the network
-  const allUsersResult = await network.getAllUsers();
-  if (!allUsersResult.success) {
-    throw allUsersResult.error;
-  }
+  const scores = await flowCentralityScores(network);
 
-  const allUsers = allUsersResult.data;
-  
   // If k is 0 or there are no users, return empty array
-  if (k === 0 || allUsers.length === 0) {
+  if (k === 0 || scores.size === 0) {
     return [];
   }
 
   // If k is undefined, return all users
   if (k === undefined) {
-    k = allUsers.length;
+    k = scores.size;
   }
 
-  // Calculate flow centrality for each user
-  const userFlowCentralityPairs: Array<{ userId: UserId; flowCentrality: number }> = [];
-  
-  for (const user of allUsers) {
-    try {
-      const flowCentrality = await calculateFlowCentrality(network, user.userId);
-      userFlowCentralityPairs.push({ userId: user.userId, flowCentrality });
-    } catch (error) {
-      // Skip users that cause errors (e.g., if they don't exist)
-      console.warn(`Failed to calculate flow centrality for user ${user.userId}:`, error);
-    }
-  }
+  const userFlowCentralityPairs = Array.from(scores, ([userId, flowCentrality]) => ({ userId, flowCentrality }));
 
   // Sort by flow centrality in descending order, then by userId for stable sorting
   userFlowCentralityPairs.sort((a, b) => {
@@ -0,0 +1,115 @@
+/**
+ * Tests for paginated traversals from ReferralNetwork.referralsPage
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ReferralNetwork,
+  ReferralErrorType,
+  PaginatedTraversalOptions,
+  TraversalEntry
+} from './index.js';
+
+/**
+ * A network with shared descendants and a cycle back to the root:
+ * root → a, b; a → c, d; b → d, e; d → f; f → root
+ */
+async function sharedNetwork(): Promise<ReferralNetwork> {
+  const network = new ReferralNetwork({ allowMultipleReferrers: true, allowCycles: true });
+  const edges: Array<[string, string]> = [
+    ['root', 'a'], ['root', 'b'], ['a', 'c'], ['a', 'd'],
+    ['b', 'd'], ['b', 'e'], ['d', 'f'], ['f', 'root']
+  ];
+  for (const [referrer, candidate] of edges) {
+    assert.equal((await network.addReferral(referrer, candidate)).success, true);
+  }
+  return network;
+}
+
+/**
+ * Collect the unpaginated traversal
+ */
+async function traversal(
+  network: ReferralNetwork,
+  user: string,
+  options: PaginatedTraversalOptions
+): Promise<TraversalEntry[]> {
+  const entries: TraversalEntry[] = [];
+  for await (const entry of network.traverseReferrals(user, options)) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Read every page of a traversal
+ */
+async function allPages(
+  network: ReferralNetwork,
+  user: string,
+  options: PaginatedTraversalOptions
+): Promise<TraversalEntry[][]> {
+  const pages: TraversalEntry[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await network.referralsPage(user, cursor === undefined ? options : { ...options, cursor });
+    assert.ok(page.success);
+    pages.push(page.data.entries);
+    cursor = page.data.nextCursor ?? undefined;
+  } while (cursor !== undefined);
+  return pages;
+}
+
+describe('referralsPage', () => {
+  for (const order of ['bfs', 'dfs'] as const) {
+    for (const pageSize of [1, 2, 3, 6]) {
+      it(`pages through the ${order} traversal ${pageSize} at a time`, async () => {
+        const network = await sharedNetwork();
+        const expected = await traversal(network, 'root', { order });
+
+        const pages = await allPages(network, 'root', { order, pageSize });
+
+        assert.deepEqual(pages.flat(), expected);
+        assert.ok(pages.every(page => page.length > 0 && page.length <= pageSize));
+      });
+    }
+  }
+
+  it('stops at the maximum depth', async () => {
+    const network = await sharedNetwork();
+    const expected = await traversal(network, 'root', { maxDepth: 2 });
+
+    const pages = await allPages(network, 'root', { maxDepth: 2, pageSize: 2 });
+
+    assert.deepEqual(pages.flat(), expected);
+  });
+
+  it('rejects a cursor once the network has changed', async () => {
+    const network = await sharedNetwork();
+    const first = await network.referralsPage('root', { pageSize: 2 });
+    assert.ok(first.success);
+    assert.ok(first.data.nextCursor);
+
+    await network.addReferral('c', 'g');
+    const next = await network.referralsPage('root', { pageSize: 2, cursor: first.data.nextCursor });
+
+    assert.equal(next.success ? undefined : next.error.type, ReferralErrorType.INVALID_INPUT);
+  });
+
+  it('rejects a cursor from another network or another traversal', async () => {
+    const network = await sharedNetwork();
+    const first = await network.referralsPage('root', { pageSize: 2 });
+    assert.ok(first.success);
+    const cursor = first.data.nextCursor ?? '';
+
+    const other = await (await sharedNetwork()).referralsPage('root', { pageSize: 2, cursor });
+    const otherOrder = await network.referralsPage('root', { order: 'dfs', pageSize: 2, cursor });
+    const otherUser = await network.referralsPage('a', { pageSize: 2, cursor });
+    const garbage = await network.referralsPage('root', { pageSize: 2, cursor: 'not a cursor' });
+
+    for (const result of [other, otherOrder, otherUser, garbage]) {
+      assert.equal(result.success ? undefined : result.error.type, ReferralErrorType.INVALID_INPUT);
+    }
+  });
+});
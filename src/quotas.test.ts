@@ -0,0 +1,75 @@
+/**
+ * Tests for rolling-window referral quotas
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReferralNetwork, ReferralErrorType, Clock } from './index.js';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+function at(hours: number): Date {
+  return new Date(Date.UTC(2024, 0, 1) + hours * HOUR);
+}
+
+function fixedClock(date: Date): Clock {
+  return { now: (): Date => date };
+}
+
+describe('referral quotas', () => {
+  it('checks backfilled referrals against the window around their own time', async () => {
+    const network = new ReferralNetwork({
+      referralQuotas: [{ limit: 2, windowMs: DAY }],
+      clock: fixedClock(at(24 * 100))
+    });
+
+    const result = await network.addReferrals([
+      { referrer: 'x', candidate: 'a', createdAt: at(0) },
+      { referrer: 'x', candidate: 'b', createdAt: at(1) },
+      { referrer: 'x', candidate: 'c', createdAt: at(2) },
+      { referrer: 'x', candidate: 'd', createdAt: at(24) },
+      { referrer: 'x', candidate: 'e', createdAt: at(25) }
+    ], { mode: 'best-effort' });
+
+    assert.ok(result.success);
+    assert.equal(result.data.applied, 4);
+    assert.deepEqual(
+      result.data.failures.map(failure => [failure.candidate, failure.errorType]),
+      [['c', ReferralErrorType.QUOTA_EXCEEDED]]
+    );
+  });
+
+  it('counts referrals stored after a backfilled one', async () => {
+    const network = new ReferralNetwork({
+      referralQuotas: [{ limit: 1, windowMs: HOUR }],
+      clock: fixedClock(at(10))
+    });
+    await network.addUser('a', { createdAt: at(0) });
+
+    assert.equal((await network.addReferral('a', 'b', { createdAt: at(2) })).success, true);
+    const backfilled = await network.addReferral('a', 'c', { createdAt: at(1.5) });
+    assert.equal(backfilled.success ? undefined : backfilled.error.type, ReferralErrorType.QUOTA_EXCEEDED);
+    assert.equal((await network.addReferral('a', 'd', { createdAt: at(0.5) })).success, true);
+  });
+
+  it('checks live referrals against the window ending on the clock', async () => {
+    let now = at(0);
+    const network = new ReferralNetwork({
+      referralQuotas: [{ limit: 1, windowMs: DAY }],
+      clock: { now: (): Date => now }
+    });
+
+    assert.equal((await network.addReferral('x', 'a')).success, true);
+    const blocked = await network.addReferral('x', 'b');
+    assert.equal(blocked.success ? undefined : blocked.error.type, ReferralErrorType.QUOTA_EXCEEDED);
+
+    now = at(24);
+    assert.equal((await network.addReferral('x', 'b')).success, true);
+
+    const status = await network.quotaStatus('x');
+    assert.ok(status.success);
+    assert.equal(status.data.remaining, 0);
+    assert.equal(status.data.nextSlotAt?.getTime(), at(48).getTime());
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tests for moving users with ReferralNetwork.reassignReferrer
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReferralNetwork, ReferralNetworkConfig, ReferralErrorType } from './index.js';
+
+/**
+ * alice → bob → carol, and a separate root xavier
+ */
+async function network(config: Partial<ReferralNetworkConfig> = {}): Promise<ReferralNetwork> {
+  const result = new ReferralNetwork(config);
+  await result.addReferral('alice', 'bob');
+  await result.addReferral('bob', 'carol');
+  await result.addUser('xavier');
+  return result;
+}
+
+describe('reassignReferrer', () => {
+  it('moves a user together with its subtree', async () => {
+    const referrals = await network();
+
+    const result = await referrals.reassignReferrer('bob', 'xavier');
+
+    assert.deepEqual(result, {
+      success: true,
+      data: { candidate: 'bob', previousReferrer: 'alice', previousReferrers: ['alice'], newReferrer: 'xavier' }
+    });
+    assert.deepEqual(await referrals.allReferrals('xavier'), { success: true, data: ['bob', 'carol'] });
+    assert.deepEqual(await referrals.allReferrals('alice'), { success: true, data: [] });
+  });
+
+  it('rejects moving a user under its own descendant', async () => {
+    const referrals = await network();
+
+    const result = await referrals.reassignReferrer('alice', 'carol');
+
+    assert.equal(result.success ? undefined : result.error.type, ReferralErrorType.CYCLE_DETECTED);
+    assert.deepEqual(await referrals.allReferrals('alice'), { success: true, data: ['bob', 'carol'] });
+  });
+
+  it('applies the new referrer\'s referral limit', async () => {
+    const referrals = await network({ maxReferralsPerUser: 1 });
+    await referrals.addReferral('xavier', 'yara');
+
+    const result = await referrals.reassignReferrer('bob', 'xavier');
+
+    assert.equal(result.success ? undefined : result.error.type, ReferralErrorType.REFERRAL_LIMIT);
+    assert.deepEqual(await referrals.getParent('bob'), { success: true, data: 'alice' });
+  });
+
+  it('makes a user a root when moved to null', async () => {
+    const referrals = await network();
+
+    const result = await referrals.reassignReferrer('bob', null);
+
+    assert.ok(result.success);
+    assert.equal(result.data.previousReferrer, 'alice');
+    assert.deepEqual(await referrals.getParents('bob'), { success: true, data: [] });
+    assert.deepEqual(await referrals.allReferrals('bob'), { success: true, data: ['carol'] });
+  });
+
+  it('removes every referrer of a user with several', async () => {
+    const referrals = await network({ allowMultipleReferrers: true });
+    await referrals.addReferral('alice', 'carol');
+
+    const result = await referrals.reassignReferrer('carol', 'xavier');
+
+    assert.ok(result.success);
+    assert.deepEqual(result.data.previousReferrers, ['bob', 'alice']);
+    assert.deepEqual(await referrals.getParents('carol'), { success: true, data: ['xavier'] });
+  });
+
+  it('keeps the referral from a new referrer that already referred the user', async () => {
+    const referrals = await network({ allowMultipleReferrers: true, maxReferralsPerUser: 1 });
+    await referrals.addReferral('xavier', 'carol');
+
+    const result = await referrals.reassignReferrer('carol', 'xavier');
+
+    assert.ok(result.success);
+    assert.deepEqual(result.data.previousReferrers, ['bob', 'xavier']);
+    assert.deepEqual(await referrals.getParents('carol'), { success: true, data: ['xavier'] });
+  });
+});
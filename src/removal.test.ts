@@ -0,0 +1,116 @@
+/**
+ * Tests for the removal policies of ReferralNetwork.removeUser
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ReferralNetwork,
+  ReferralNetworkConfig,
+  ReferralErrorType,
+  IReferralStorage,
+  InMemoryStorage,
+  UserId
+} from './index.js';
+
+/**
+ * alice → bob → carol, bob → dave, carol → erin
+ */
+async function network(
+  config: Partial<ReferralNetworkConfig> = {},
+  storage?: IReferralStorage
+): Promise<ReferralNetwork> {
+  const result = new ReferralNetwork(config, storage);
+  const edges: Array<[UserId, UserId]> = [['alice', 'bob'], ['bob', 'carol'], ['bob', 'dave'], ['carol', 'erin']];
+  for (const [referrer, candidate] of edges) {
+    assert.equal((await result.addReferral(referrer, candidate)).success, true);
+  }
+  return result;
+}
+
+async function usersOf(referrals: ReferralNetwork): Promise<UserId[]> {
+  const result = await referrals.getAllUsers();
+  assert.ok(result.success);
+  return result.data.map(user => user.userId).sort();
+}
+
+describe('removeUser', () => {
+  it('leaves the referrals of an orphaned user without a referrer', async () => {
+    const referrals = await network();
+
+    const result = await referrals.removeUser('bob', { policy: 'orphan' });
+
+    assert.deepEqual(result, {
+      success: true,
+      data: { policy: 'orphan', removed: ['bob'], orphaned: ['carol', 'dave'], reattached: [], newReferrer: null }
+    });
+    assert.deepEqual(await referrals.getParent('carol'), { success: true, data: null });
+    assert.deepEqual(await referrals.allReferrals('carol'), { success: true, data: ['erin'] });
+  });
+
+  it('hands the referrals to the removed user\'s referrer', async () => {
+    const referrals = await network();
+
+    const result = await referrals.removeUser('bob', { policy: 'reattach' });
+
+    assert.deepEqual(result, {
+      success: true,
+      data: { policy: 'reattach', removed: ['bob'], orphaned: [], reattached: ['carol', 'dave'], newReferrer: 'alice' }
+    });
+    assert.deepEqual(await referrals.directReferrals('alice'), { success: true, data: ['carol', 'dave'] });
+  });
+
+  it('orphans the referrals when reattaching from a root', async () => {
+    const referrals = await network();
+
+    const result = await referrals.removeUser('alice', { policy: 'reattach' });
+
+    assert.deepEqual(result, {
+      success: true,
+      data: { policy: 'reattach', removed: ['alice'], orphaned: ['bob'], reattached: [], newReferrer: null }
+    });
+    assert.deepEqual(await referrals.getParent('bob'), { success: true, data: null });
+  });
+
+  it('removes the whole subtree in a cascade', async () => {
+    const referrals = await network();
+
+    const result = await referrals.removeUser('bob', { policy: 'cascade' });
+
+    assert.ok(result.success);
+    assert.deepEqual([...result.data.removed].sort(), ['bob', 'carol', 'dave', 'erin']);
+    assert.equal(result.data.removed[0], 'bob');
+    assert.deepEqual(await usersOf(referrals), ['alice']);
+  });
+
+  it('rejects a reattach that would exceed the referrer\'s limit', async () => {
+    const referrals = await network({ maxReferralsPerUser: 2 });
+    await referrals.addReferral('alice', 'frank');
+
+    const result = await referrals.removeUser('bob', { policy: 'reattach' });
+
+    assert.equal(result.success ? undefined : result.error.type, ReferralErrorType.REFERRAL_LIMIT);
+    assert.deepEqual(await usersOf(referrals), ['alice', 'bob', 'carol', 'dave', 'erin', 'frank']);
+  });
+
+  it('rolls the removal back when a reattached referral fails', async () => {
+    let failReattach = false;
+    class FailingStorage extends InMemoryStorage {
+      override async addReferral(referrer: UserId, candidate: UserId, createdAt?: Date): Promise<void> {
+        if (failReattach && candidate === 'dave') {
+          throw new Error('Write failed');
+        }
+        return super.addReferral(referrer, candidate, createdAt);
+      }
+    }
+    const referrals = await network({}, new FailingStorage());
+    failReattach = true;
+
+    const result = await referrals.removeUser('bob', { policy: 'reattach' });
+
+    assert.equal(result.success ? undefined : result.error.type, ReferralErrorType.STORAGE_ERROR);
+    assert.deepEqual(await usersOf(referrals), ['alice', 'bob', 'carol', 'dave', 'erin']);
+    assert.deepEqual(await referrals.directReferrals('alice'), { success: true, data: ['bob'] });
+    assert.deepEqual(await referrals.directReferrals('bob'), { success: true, data: ['carol', 'dave'] });
+  });
+});
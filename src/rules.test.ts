@@ -0,0 +1,112 @@
+/**
+ * Tests for custom referral validation rules
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReferralNetwork, ReferralErrorType } from './index.js';
+// The package index re-exports ReferralError as a type only, and not ReferralRule
+import { ReferralError, ReferralRule } from './types/index.js';
+
+/**
+ * A rule that records each call in `log` and rejects when `reject` says so
+ */
+function rule(
+  name: string,
+  log: string[],
+  options: { order?: number; reject?: boolean } = {}
+): ReferralRule {
+  return {
+    name,
+    ...(options.order === undefined ? {} : { order: options.order }),
+    check: async (): Promise<ReferralError | null> => {
+      log.push(name);
+      return options.reject
+        ? new ReferralError(ReferralErrorType.RULE_VIOLATION, `Rejected by ${name}`, {}, name.toUpperCase())
+        : null;
+    }
+  };
+}
+
+describe('custom referral rules', () => {
+  it('runs rules in ascending order, ties in registration order', async () => {
+    const log: string[] = [];
+    const network = new ReferralNetwork({
+      rules: [rule('late', log, { order: 2 }), rule('tie-1', log), rule('early', log, { order: -1 }), rule('tie-2', log)]
+    });
+
+    assert.equal((await network.addReferral('a', 'b')).success, true);
+    assert.deepEqual(log, ['early', 'tie-1', 'tie-2', 'late']);
+  });
+
+  it('runs rules only after the built-in constraints pass', async () => {
+    const log: string[] = [];
+    const network = new ReferralNetwork({ rules: [rule('veto', log, { reject: true })] });
+
+    const result = await network.addReferral('a', 'a');
+
+    assert.equal(result.success ? undefined : result.error.type, ReferralErrorType.SELF_REFERRAL);
+    assert.deepEqual(log, []);
+  });
+
+  it('rejects with the first failing rule and stops there', async () => {
+    const log: string[] = [];
+    const network = new ReferralNetwork({
+      rules: [rule('first', log, { reject: true }), rule('second', log, { reject: true })]
+    });
+
+    const result = await network.addReferral('a', 'b');
+
+    assert.equal(result.success ? undefined : result.error.type, ReferralErrorType.RULE_VIOLATION);
+    assert.equal(result.success ? undefined : result.error.code, 'FIRST');
+    assert.deepEqual(log, ['first']);
+    assert.deepEqual(await network.userExists('b'), { success: true, data: false });
+  });
+
+  it('reports every failing rule from canRefer, after the built-in violations', async () => {
+    const log: string[] = [];
+    const network = new ReferralNetwork({ maxReferralsPerUser: 1 });
+    await network.addReferral('a', 'b');
+    network.updateConfig({
+      rules: [rule('second', log, { order: 1, reject: true }), rule('first', log, { reject: true })]
+    });
+
+    const result = await network.canRefer('a', 'c');
+
+    assert.ok(result.success);
+    assert.deepEqual(result.data.map(violation => violation.code), [ReferralErrorType.REFERRAL_LIMIT, 'FIRST', 'SECOND']);
+  });
+
+  it('skips disabled rules and picks up changes from updateConfig', async () => {
+    const log: string[] = [];
+    const network = new ReferralNetwork({
+      rules: [rule('veto', log, { reject: true })],
+      disabledRules: ['veto']
+    });
+
+    assert.equal((await network.addReferral('a', 'b')).success, true);
+    assert.deepEqual(log, []);
+
+    network.updateConfig({ disabledRules: [] });
+    const blocked = await network.addReferral('a', 'c');
+    assert.equal(blocked.success ? undefined : blocked.error.code, 'VETO');
+
+    network.updateConfig({ rules: [] });
+    assert.equal((await network.addReferral('a', 'c')).success, true);
+  });
+
+  it('gives rules a read-only view of the network', async () => {
+    const network = new ReferralNetwork({
+      rules: [{
+        name: 'one-level',
+        check: async ({ referrer, storage }): Promise<ReferralError | null> => await storage.getParent(referrer) === null
+          ? null
+          : new ReferralError(ReferralErrorType.RULE_VIOLATION, 'Only roots may refer', { referrer }, 'ROOTS_ONLY')
+      }]
+    });
+
+    assert.equal((await network.addReferral('a', 'b')).success, true);
+    const result = await network.addReferral('b', 'c');
+    assert.equal(result.success ? undefined : result.error.code, 'ROOTS_ONLY');
+  });
+});
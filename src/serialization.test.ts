@@ -0,0 +1,137 @@
+/**
+ * Round-trip tests for network export and import
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ReferralNetwork,
+  ReferralErrorType,
+  Clock,
+  SerializationFormat,
+  exportJson,
+  importJson,
+  exportNetwork,
+  importNetwork
+} from './index.js';
+
+/**
+ * A clock that moves forward a minute every time it is read
+ */
+function steppingClock(): Clock {
+  let time = Date.UTC(2024, 0, 1);
+  return { now: () => new Date(time += 60_000) };
+}
+
+function at(minute: number): Date {
+  return new Date(Date.UTC(2024, 0, 1, 0, minute));
+}
+
+/**
+ * The parts of an exported JSON document that describe the network
+ */
+function graphOf(text: string): unknown {
+  const { users, referrals } = JSON.parse(text);
+  return { users, referrals };
+}
+
+describe('JSON round trip', () => {
+  it('reproduces a network where an existing root is referred by a newer user', async () => {
+    const network = new ReferralNetwork({ clock: steppingClock() });
+    assert.equal((await network.addReferral('x', 'y')).success, true);
+    assert.equal((await network.addReferral('z', 'x')).success, true);
+
+    const text = await exportJson(network);
+    const copy = new ReferralNetwork({ clock: steppingClock() });
+    const report = await importJson(copy, text);
+
+    assert.deepEqual(report.rejected, []);
+    assert.equal(report.users, 3);
+    assert.equal(report.referrals, 2);
+    assert.deepEqual(graphOf(await exportJson(copy)), graphOf(text));
+  });
+
+  it('stamps the export with the network clock', async () => {
+    const network = new ReferralNetwork({ clock: { now: (): Date => at(42) } });
+    await network.addReferral('x', 'y');
+
+    assert.equal(JSON.parse(await exportJson(network)).exportedAt, at(42).toISOString());
+  });
+
+  it('rejects a referral that predates its referrer joining, live and imported', async () => {
+    const network = new ReferralNetwork();
+    await network.addUser('x', { createdAt: at(10) });
+    const live = await network.addReferral('x', 'y', { createdAt: at(5) });
+    assert.equal(live.success, false);
+    assert.equal(live.success ? undefined : live.error.type, ReferralErrorType.INVALID_INPUT);
+
+    const report = await importJson(new ReferralNetwork(), JSON.stringify({
+      format: 'referral-network',
+      version: 1,
+      exportedAt: at(20).toISOString(),
+      users: [{ userId: 'x', createdAt: at(10).toISOString() }],
+      referrals: [{ referrer: 'x', candidate: 'y', createdAt: at(5).toISOString() }]
+    }));
+    assert.equal(report.referrals, 0);
+    assert.deepEqual(report.rejected.map(rejection => [rejection.location, rejection.errorType]), [
+      ['referrals[0]', ReferralErrorType.INVALID_INPUT]
+    ]);
+  });
+});
+
+/**
+ * Users whose IDs need quoting in every format, and one without referrals
+ */
+async function awkwardNetwork(): Promise<ReferralNetwork> {
+  const network = new ReferralNetwork({ allowMultipleReferrers: true });
+  await network.addUser('say "hi"', { createdAt: at(1) });
+  await network.addReferral('say "hi"', 'a,b', { createdAt: at(2) });
+  await network.addReferral('a,b', '<tag> & \\slash', { createdAt: at(3) });
+  await network.addReferral('say "hi"', '<tag> & \\slash', { createdAt: at(4) });
+  await network.addReferral('a,b', 'two\nlines', { createdAt: at(5) });
+  await network.addUser('loner', { createdAt: at(6) });
+  return network;
+}
+
+describe('DOT, GraphML and CSV round trips', () => {
+  const formats: SerializationFormat[] = ['dot', 'graphml', 'csv'];
+
+  for (const format of formats) {
+    it(`reproduces the users, referrals and timestamps through ${format}`, async () => {
+      const network = await awkwardNetwork();
+
+      const copy = new ReferralNetwork({ allowMultipleReferrers: true });
+      const report = await importNetwork(copy, format, await exportNetwork(network, format));
+
+      assert.deepEqual(report.rejected, []);
+      assert.equal(report.format, format);
+      assert.equal(report.users, 5);
+      assert.equal(report.referrals, 4);
+      assert.deepEqual(graphOf(await exportJson(copy)), graphOf(await exportJson(network)));
+    });
+  }
+
+  it('reports malformed lines and imports the rest', async () => {
+    const network = new ReferralNetwork();
+
+    const report = await importNetwork(network, 'csv', [
+      'referrer,candidate,createdAt',
+      'x,y,2024-01-01T00:01:00.000Z',
+      'x,y,z,extra',
+      'y,y'
+    ].join('\n'));
+
+    assert.equal(report.referrals, 1);
+    assert.deepEqual(report.rejected.map(rejection => [rejection.location, rejection.errorType]), [
+      ['line 3', ReferralErrorType.INVALID_INPUT],
+      ['line 4', ReferralErrorType.SELF_REFERRAL]
+    ]);
+    assert.deepEqual(await network.directReferrals('x'), { success: true, data: ['y'] });
+  });
+
+  it('rejects a DOT statement it cannot parse', async () => {
+    const report = await importNetwork(new ReferralNetwork(), 'dot', 'digraph referrals {\n  x -> y;\n}\n');
+
+    assert.deepEqual(report.rejected.map(rejection => rejection.location), ['line 2']);
+  });
+});
@@ -0,0 +1,638 @@
+/**
+ * Serialization functions for the Referral Network
+ *
+ * Exports a network as Graphviz DOT, GraphML, a versioned JSON document or a
+ * CSV edge list, and imports those formats back through the ReferralNetwork
+ * validation rules.
+ */
+
+import { ReferralNetwork } from './ReferralNetwork.js';
+import {
+  UserId,
+  UserNode,
+  ReferralRelationship,
+  ReferralEdge,
+  ReferralErrorType
+} from './types/index.js';
+
+/**
+ * Supported serialization formats
+ */
+export type SerializationFormat = 'dot' | 'graphml' | 'json' | 'csv';
+
+/**
+ * Version of the JSON document written by exportJson
+ */
+export const NETWORK_DOCUMENT_VERSION = 1;
+
+/**
+ * Versioned JSON representation of a network
+ */
+export interface NetworkDocument {
+  format: 'referral-network';
+  version: number;
+  exportedAt: string;
+  users: Array<{ userId: UserId; createdAt: string }>;
+  referrals: Array<{ referrer: UserId; candidate: UserId; createdAt: string }>;
+}
+
+/**
+ * A record that could not be imported
+ */
+export interface ImportRejection {
+  /** Where the record came from, e.g. "line 4" or "referrals[2]" */
+  location: string;
+  errorType: ReferralErrorType;
+  message: string;
+}
+
+/**
+ * Outcome of an import
+ */
+export interface ImportReport {
+  format: SerializationFormat;
+  /** Number of user records imported */
+  users: number;
+  /** Number of referral records imported */
+  referrals: number;
+  rejected: ImportRejection[];
+}
+
+type GraphRecord =
+  | { kind: 'user'; location: string; userId: UserId; createdAt: Date | undefined }
+  | { kind: 'referral'; location: string; referrer: UserId; candidate: UserId; createdAt: Date | undefined };
+
+interface ParsedGraph {
+  records: GraphRecord[];
+  rejected: ImportRejection[];
+}
+
+const CSV_HEADER = 'referrer,candidate,createdAt';
+
+/**
+ * Export a network in the given format
+ *
+ * @param network - The referral network to export
+ * @param format - The output format
+ * @returns Promise resolving to the serialized network
+ */
+export async function exportNetwork(network: ReferralNetwork, format: SerializationFormat): Promise<string> {
+  switch (format) {
+    case 'dot':
+      return exportDot(network);
+    case 'graphml':
+      return exportGraphML(network);
+    case 'json':
+      return exportJson(network);
+    case 'csv':
+      return exportCsv(network);
+    default:
+      throw new Error(`Unsupported serialization format: ${format}`);
+  }
+}
+
+/**
+ * Import a serialized network in the given format
+ *
+ * @param network - The network to import into
+ * @param format - The input format
+ * @param text - The serialized network
+ * @returns Promise resolving to a report of imported and rejected records
+ */
+export async function importNetwork(
+  network: ReferralNetwork,
+  format: SerializationFormat,
+  text: string
+): Promise<ImportReport> {
+  switch (format) {
+    case 'dot':
+      return importDot(network, text);
+    case 'graphml':
+      return importGraphML(network, text);
+    case 'json':
+      return importJson(network, text);
+    case 'csv':
+      return importCsv(network, text);
+    default:
+      throw new Error(`Unsupported serialization format: ${format}`);
+  }
+}
+
+/**
+ * Export a network as a Graphviz DOT digraph
+ *
+ * @param network - The referral network to export
+ * @returns Promise resolving to the DOT source
+ */
+export async function exportDot(network: ReferralNetwork): Promise<string> {
+  const { users, referrals } = await readGraph(network);
+
+  const lines = ['digraph referrals {'];
+  for (const user of users) {
+    lines.push(`  ${dotString(user.userId)} [createdAt=${dotString(user.createdAt.toISOString())}];`);
+  }
+  for (const referral of referrals) {
+    lines.push(
+      `  ${dotString(referral.referrer)} -> ${dotString(referral.candidate)} ` +
+      `[createdAt=${dotString(referral.createdAt.toISOString())}];`
+    );
+  }
+  lines.push('}');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Export a network as GraphML
+ *
+ * @param network - The referral network to export
+ * @returns Promise resolving to the GraphML document
+ */
+export async function exportGraphML(network: ReferralNetwork): Promise<string> {
+  const { users, referrals } = await readGraph(network);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="createdAt" for="all" attr.name="createdAt" attr.type="string"/>',
+    '  <graph id="referrals" edgedefault="directed">'
+  ];
+  for (const user of users) {
+    lines.push(
+      `    <node id="${xmlEscape(user.userId)}">` +
+      `<data key="createdAt">${user.createdAt.toISOString()}</data></node>`
+    );
+  }
+  for (const referral of referrals) {
+    lines.push(
+      `    <edge source="${xmlEscape(referral.referrer)}" target="${xmlEscape(referral.candidate)}">` +
+      `<data key="createdAt">${referral.createdAt.toISOString()}</data></edge>`
+    );
+  }
+  lines.push('  </graph>', '</graphml>');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Export a network as a versioned JSON document, stamped with the time on
+ * the network's clock
+ *
+ * @param network - The referral network to export
+ * @returns Promise resolving to the JSON document
+ */
+export async function exportJson(network: ReferralNetwork): Promise<string> {
+  const { users, referrals } = await readGraph(network);
+
+  const document: NetworkDocument = {
+    format: 'referral-network',
+    version: NETWORK_DOCUMENT_VERSION,
+    exportedAt: network.clock.now().toISOString(),
+    users: users.map(user => ({ userId: user.userId, createdAt: user.createdAt.toISOString() })),
+    referrals: referrals.map(referral => ({
+      referrer: referral.referrer,
+      candidate: referral.candidate,
+      createdAt: referral.createdAt.toISOString()
+    }))
+  };
+
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+/**
+ * Export a network as a CSV edge list
+ *
+ * Every user is first listed on a row with an empty referrer, carrying the
+ * user's join time, so that users without referrals survive a round trip.
+ * The remaining rows are referrer → candidate edges.
+ *
+ * @param network - The referral network to export
+ * @returns Promise resolving to the CSV text
+ */
+export async function exportCsv(network: ReferralNetwork): Promise<string> {
+  const { users, referrals } = await readGraph(network);
+
+  const lines = [CSV_HEADER];
+  for (const user of users) {
+    lines.push(['', user.userId, user.createdAt.toISOString()].map(csvField).join(','));
+  }
+  for (const referral of referrals) {
+    lines.push(
+      [referral.referrer, referral.candidate, referral.createdAt.toISOString()].map(csvField).join(',')
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Import a Graphviz DOT digraph written by exportDot
+ *
+ * Each statement must be on its own line. Node statements declare users and
+ * edge statements declare referrals; an optional createdAt attribute holds
+ * the ISO 8601 timestamp.
+ *
+ * @param network - The network to import into
+ * @param text - The DOT source
+ * @returns Promise resolving to a report of imported and rejected lines
+ */
+export async function importDot(network: ReferralNetwork, text: string): Promise<ImportReport> {
+  const quoted = '"((?:[^"\\\\]|\\\\.)*)"';
+  const attributes = '(?:\\[(.*)\\])?';
+  const edgePattern = new RegExp(`^${quoted}\\s*->\\s*${quoted}\\s*${attributes}\\s*;?$`);
+  const nodePattern = new RegExp(`^${quoted}\\s*${attributes}\\s*;?$`);
+
+  const parsed: ParsedGraph = { records: [], rejected: [] };
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const location = `line ${index + 1}`;
+    if (line === '' || line === '}' || line.startsWith('//') || /^(strict\s+)?digraph\b.*\{$/.test(line)) {
+      return;
+    }
+
+    const edge = edgePattern.exec(line);
+    if (edge) {
+      addRecord(parsed, location, {
+        kind: 'referral',
+        referrer: dotUnescape(edge[1] ?? ''),
+        candidate: dotUnescape(edge[2] ?? ''),
+        timestamp: dotAttribute(edge[3], 'createdAt')
+      });
+      return;
+    }
+
+    const node = nodePattern.exec(line);
+    if (node) {
+      addRecord(parsed, location, {
+        kind: 'user',
+        userId: dotUnescape(node[1] ?? ''),
+        timestamp: dotAttribute(node[2], 'createdAt')
+      });
+      return;
+    }
+
+    reject(parsed, location, 'Unrecognized DOT statement');
+  });
+
+  return applyRecords(network, 'dot', parsed);
+}
+
+/**
+ * Import a GraphML document written by exportGraphML
+ *
+ * Each node and edge element must be on its own line; a data element with
+ * key "createdAt" holds the ISO 8601 timestamp.
+ *
+ * @param network - The network to import into
+ * @param text - The GraphML document
+ * @returns Promise resolving to a report of imported and rejected lines
+ */
+export async function importGraphML(network: ReferralNetwork, text: string): Promise<ImportReport> {
+  const parsed: ParsedGraph = { records: [], rejected: [] };
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const location = `line ${index + 1}`;
+    const timestamp = /<data\s+key="createdAt"\s*>([^<]*)<\/data>/.exec(line)?.[1];
+
+    if (/^<node[\s>/]/.test(line)) {
+      const id = xmlAttribute(line, 'id');
+      if (id === undefined) {
+        reject(parsed, location, 'GraphML node is missing an id');
+        return;
+      }
+      addRecord(parsed, location, { kind: 'user', userId: id, timestamp });
+    } else if (/^<edge[\s>/]/.test(line)) {
+      const source = xmlAttribute(line, 'source');
+      const target = xmlAttribute(line, 'target');
+      if (source === undefined || target === undefined) {
+        reject(parsed, location, 'GraphML edge is missing a source or target');
+        return;
+      }
+      addRecord(parsed, location, { kind: 'referral', referrer: source, candidate: target, timestamp });
+    }
+  });
+
+  return applyRecords(network, 'graphml', parsed);
+}
+
+/**
+ * Import a JSON document written by exportJson
+ *
+ * @param network - The network to import into
+ * @param text - The JSON document
+ * @returns Promise resolving to a report of imported and rejected records
+ */
+export async function importJson(network: ReferralNetwork, text: string): Promise<ImportReport> {
+  const parsed: ParsedGraph = { records: [], rejected: [] };
+
+  let document: Partial<NetworkDocument>;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    reject(parsed, 'document', `Invalid JSON: ${(error as Error).message}`);
+    return applyRecords(network, 'json', parsed);
+  }
+
+  if (
+    typeof document !== 'object' || document === null ||
+    document.format !== 'referral-network' ||
+    typeof document.version !== 'number' ||
+    document.version > NETWORK_DOCUMENT_VERSION
+  ) {
+    reject(parsed, 'document', `Expected a referral-network document of version ${NETWORK_DOCUMENT_VERSION} or lower`);
+    return applyRecords(network, 'json', parsed);
+  }
+
+  (Array.isArray(document.users) ? document.users : []).forEach((user, index) => {
+    addRecord(parsed, `users[${index}]`, { kind: 'user', userId: user?.userId, timestamp: user?.createdAt });
+  });
+  (Array.isArray(document.referrals) ? document.referrals : []).forEach((referral, index) => {
+    addRecord(parsed, `referrals[${index}]`, {
+      kind: 'referral',
+      referrer: referral?.referrer,
+      candidate: referral?.candidate,
+      timestamp: referral?.createdAt
+    });
+  });
+
+  return applyRecords(network, 'json', parsed);
+}
+
+/**
+ * Import a CSV edge list written by exportCsv
+ *
+ * The header row is required. Rows with an empty referrer declare a user;
+ * the createdAt column is optional.
+ *
+ * @param network - The network to import into
+ * @param text - The CSV text
+ * @returns Promise resolving to a report of imported and rejected lines
+ */
+export async function importCsv(network: ReferralNetwork, text: string): Promise<ImportReport> {
+  const parsed: ParsedGraph = { records: [], rejected: [] };
+  const rows = parseCsv(text);
+
+  const header = rows.shift();
+  if (!header || header.fields.map(field => field.trim()).join(',') !== CSV_HEADER) {
+    reject(parsed, header ? `line ${header.line}` : 'document', `Expected header "${CSV_HEADER}"`);
+    return applyRecords(network, 'csv', parsed);
+  }
+
+  for (const { line, fields } of rows) {
+    const location = `line ${line}`;
+    if (fields.length === 1 && fields[0] === '') {
+      continue;
+    }
+    if (fields.length < 2 || fields.length > 3) {
+      reject(parsed, location, `Expected 2 or 3 fields, found ${fields.length}`);
+      continue;
+    }
+
+    const [referrer = '', candidate = '', createdAt = ''] = fields;
+    const timestamp = createdAt === '' ? undefined : createdAt;
+    if (referrer === '') {
+      addRecord(parsed, location, { kind: 'user', userId: candidate, timestamp });
+    } else {
+      addRecord(parsed, location, { kind: 'referral', referrer, candidate, timestamp });
+    }
+  }
+
+  return applyRecords(network, 'csv', parsed);
+}
+
+// Private helpers
+
+async function readGraph(
+  network: ReferralNetwork
+): Promise<{ users: UserNode[]; referrals: ReferralRelationship[] }> {
+  const usersResult = await network.getAllUsers();
+  if (!usersResult.success) {
+    throw usersResult.error;
+  }
+
+  const referralsResult = await network.getAllReferralRelationships();
+  if (!referralsResult.success) {
+    throw referralsResult.error;
+  }
+
+  return { users: usersResult.data, referrals: referralsResult.data };
+}
+
+/**
+ * Users are applied before referrals so that join times are kept even for
+ * users that a referral would otherwise create implicitly
+ */
+async function applyRecords(
+  network: ReferralNetwork,
+  format: SerializationFormat,
+  parsed: ParsedGraph
+): Promise<ImportReport> {
+  const report: ImportReport = { format, users: 0, referrals: 0, rejected: [...parsed.rejected] };
+
+  const referralRecords: Array<Extract<GraphRecord, { kind: 'referral' }>> = [];
+  for (const record of parsed.records) {
+    if (record.kind === 'referral') {
+      referralRecords.push(record);
+      continue;
+    }
+
+    const result = await network.addUser(
+      record.userId,
+      record.createdAt === undefined ? {} : { createdAt: record.createdAt }
+    );
+    if (result.success) {
+      report.users++;
+    } else {
+      report.rejected.push({ location: record.location, errorType: result.error.type, message: result.error.message });
+    }
+  }
+
+  const edges: ReferralEdge[] = referralRecords.map(record => ({
+    referrer: record.referrer,
+    candidate: record.candidate,
+    ...(record.createdAt === undefined ? {} : { createdAt: record.createdAt })
+  }));
+  const batchResult = await network.addReferrals(edges, { mode: 'best-effort' });
+  if (!batchResult.success) {
+    throw batchResult.error;
+  }
+
+  report.referrals = batchResult.data.applied;
+  for (const failure of batchResult.data.failures) {
+    report.rejected.push({
+      location: referralRecords[failure.index]?.location ?? `referral ${failure.index}`,
+      errorType: failure.errorType,
+      message: failure.error.message
+    });
+  }
+
+  // Report rejections in source order
+  report.rejected.sort((a, b) => locationOrder(a.location) - locationOrder(b.location));
+  return report;
+}
+
+type RawRecord =
+  | { kind: 'user'; userId: unknown; timestamp: unknown }
+  | { kind: 'referral'; referrer: unknown; candidate: unknown; timestamp: unknown };
+
+/**
+ * Check the field types and timestamp of a parsed record before queuing it
+ */
+function addRecord(parsed: ParsedGraph, location: string, raw: RawRecord): void {
+  let createdAt: Date | undefined;
+  if (raw.timestamp !== undefined) {
+    createdAt = typeof raw.timestamp === 'string' ? new Date(raw.timestamp) : new Date(NaN);
+    if (Number.isNaN(createdAt.getTime())) {
+      reject(parsed, location, `Invalid timestamp: ${String(raw.timestamp)}`);
+      return;
+    }
+  }
+
+  if (raw.kind === 'user') {
+    if (typeof raw.userId !== 'string') {
+      reject(parsed, location, 'User ID must be a string');
+      return;
+    }
+    parsed.records.push({ kind: 'user', location, userId: raw.userId, createdAt });
+    return;
+  }
+
+  if (typeof raw.referrer !== 'string' || typeof raw.candidate !== 'string') {
+    reject(parsed, location, 'Referrer and candidate must be strings');
+    return;
+  }
+  parsed.records.push({ kind: 'referral', location, referrer: raw.referrer, candidate: raw.candidate, createdAt });
+}
+
+function reject(parsed: ParsedGraph, location: string, message: string): void {
+  parsed.rejected.push({ location, errorType: ReferralErrorType.INVALID_INPUT, message });
+}
+
+/**
+ * Sort key for locations: line numbers and array indices in source order,
+ * with users[] before referrals[] as they appear in the JSON document
+ */
+function locationOrder(location: string): number {
+  const index = Number(/(\d+)/.exec(location)?.[1] ?? -1);
+  return location.startsWith('referrals[') ? 1e12 + index : index;
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r')}"`;
+}
+
+function dotUnescape(value: string): string {
+  return value.replace(/\\(.)/g, (_match, character: string) => {
+    if (character === 'n') {
+      return '\n';
+    }
+    if (character === 'r') {
+      return '\r';
+    }
+    return character;
+  });
+}
+
+function dotAttribute(attributes: string | undefined, name: string): string | undefined {
+  if (attributes === undefined) {
+    return undefined;
+  }
+  const match = new RegExp(`\\b${name}\\s*=\\s*"((?:[^"\\\\]|\\\\.)*)"`).exec(attributes);
+  return match ? dotUnescape(match[1] ?? '') : undefined;
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/\n/g, '&#10;')
+    .replace(/\r/g, '&#13;');
+}
+
+function xmlUnescape(value: string): string {
+  return value.replace(/&(#\d+|#x[0-9a-fA-F]+|amp|lt|gt|quot|apos);/g, (_match, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+      default:
+        return String.fromCodePoint(
+          entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
+
+function xmlAttribute(element: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(element);
+  return match ? xmlUnescape(match[1] ?? '') : undefined;
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Parse RFC 4180 CSV, keeping the line each row starts on so rejections can
+ * point at it even when quoted fields span several lines
+ */
+function parseCsv(text: string): Array<{ line: number; fields: string[] }> {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const character = text[i];
+
+    if (inQuotes) {
+      if (character === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (character === '"') {
+        inQuotes = false;
+      } else {
+        if (character === '\n') {
+          line++;
+        }
+        field += character;
+      }
+      continue;
+    }
+
+    if (character === '"') {
+      inQuotes = true;
+    } else if (character === ',') {
+      fields.push(field);
+      field = '';
+    } else if (character === '\n' || character === '\r') {
+      if (character === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      fields.push(field);
+      rows.push({ line: rowLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += character;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    rows.push({ line: rowLine, fields });
+  }
+
+  return rows;
+}
@@ -0,0 +1,107 @@
+/**
+ * Tests for the routes and error responses of the HTTP API server
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReferralNetwork, ReferralHttpServer, ReferralErrorType, createReferralServer } from './index.js';
+
+/**
+ * The response fields the tests look at
+ */
+interface ApiResponse {
+  status: number;
+  body: {
+    error?: { type: string };
+    referrals?: string[];
+    ancestors?: string[];
+    users?: string[];
+    reattached?: string[];
+    totalUsers?: number;
+  };
+}
+
+describe('HTTP API server', () => {
+  let server: ReferralHttpServer;
+  let base: string;
+
+  before(async () => {
+    const network = new ReferralNetwork();
+    await network.addReferral('alice', 'bob');
+    await network.addReferral('bob', 'carol');
+    server = createReferralServer(network, { maxBodyBytes: 256 });
+    base = `http://127.0.0.1:${await server.listen(0, '127.0.0.1')}`;
+  });
+
+  after(() => server.close());
+
+  async function request(method: string, path: string, body?: unknown): Promise<ApiResponse> {
+    const response = await fetch(`${base}${path}`, {
+      method,
+      ...(body === undefined ? {} : {
+        headers: { 'Content-Type': 'application/json' },
+        body: typeof body === 'string' ? body : JSON.stringify(body)
+      })
+    });
+    return { status: response.status, body: await response.json() as ApiResponse['body'] };
+  }
+
+  it('records a referral', async () => {
+    const created = await request('POST', '/referrals', { referrer: 'alice', candidate: 'dave' });
+
+    assert.deepEqual(created, { status: 201, body: { referrer: 'alice', candidate: 'dave' } });
+    assert.deepEqual(await request('GET', '/users/alice/referrals'), {
+      status: 200,
+      body: { user: 'alice', scope: 'direct', referrals: ['bob', 'dave'] }
+    });
+  });
+
+  it('answers the read routes', async () => {
+    assert.deepEqual((await request('GET', '/users/alice/referrals?scope=all')).body.referrals?.sort(), ['bob', 'carol', 'dave']);
+    assert.deepEqual(await request('GET', '/users/carol/ancestors'), {
+      status: 200,
+      body: { user: 'carol', ancestors: ['bob', 'alice'] }
+    });
+    assert.equal((await request('GET', '/stats')).body.totalUsers, 4);
+    assert.deepEqual(await request('GET', '/rankings/reach?k=1'), { status: 200, body: { metric: 'reach', k: 1, users: ['alice'] } });
+    assert.deepEqual((await request('GET', '/rankings/flow?k=1')).body.users, ['bob']);
+  });
+
+  it('maps referral errors to HTTP statuses', async () => {
+    const cases: Array<[string, string, unknown, number, string]> = [
+      ['POST', '/referrals', { referrer: 'carol', candidate: 'alice' }, 409, ReferralErrorType.CYCLE_DETECTED],
+      ['POST', '/referrals', { referrer: 'alice', candidate: 'alice' }, 400, ReferralErrorType.SELF_REFERRAL],
+      ['POST', '/referrals', { referrer: 'alice' }, 400, ReferralErrorType.INVALID_INPUT],
+      ['POST', '/referrals', '{"referrer":', 400, ReferralErrorType.INVALID_INPUT],
+      ['GET', '/users/nobody/referrals', undefined, 404, ReferralErrorType.USER_NOT_FOUND],
+      ['GET', '/users/alice/referrals?scope=some', undefined, 400, ReferralErrorType.INVALID_INPUT],
+      ['GET', '/rankings/reach?k=-1', undefined, 400, ReferralErrorType.INVALID_INPUT],
+      ['DELETE', '/users/nobody', undefined, 404, ReferralErrorType.USER_NOT_FOUND]
+    ];
+
+    for (const [method, path, body, status, type] of cases) {
+      const response = await request(method, path, body);
+      assert.equal(response.status, status, `${method} ${path}`);
+      assert.equal(response.body.error?.type, type, `${method} ${path}`);
+    }
+  });
+
+  it('rejects unknown routes, wrong methods and unusable bodies', async () => {
+    assert.equal((await request('GET', '/nowhere')).body.error?.type, 'NOT_FOUND');
+    assert.equal((await request('GET', '/rankings/size')).status, 404);
+    assert.equal((await request('PUT', '/referrals')).status, 405);
+    assert.equal((await request('POST', '/referrals', { referrer: 'x'.repeat(300), candidate: 'y' })).status, 413);
+
+    const text = await fetch(`${base}/referrals`, { method: 'POST', body: 'referrer=alice' });
+    assert.equal(text.status, 415);
+    await text.body?.cancel();
+  });
+
+  it('removes a user with the requested policy', async () => {
+    const removed = await request('DELETE', '/users/bob?policy=reattach');
+
+    assert.equal(removed.status, 200);
+    assert.deepEqual(removed.body.reattached, ['carol']);
+    assert.deepEqual((await request('GET', '/users/carol/ancestors')).body.ancestors, ['alice']);
+  });
+});
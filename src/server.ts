@@ -0,0 +1,391 @@
+/**
+ * HTTP JSON API for the Referral Network
+ *
+ * Exposes ReferralNetwork operations over node:http so that several services
+ * can share one network instead of each embedding the library.
+ *
+ * Routes:
+ * - POST   /referrals                           { referrer, candidate, createdAt? }
+ * - GET    /users/:id/referrals?scope=direct|all
+ * - GET    /users/:id/ancestors
+ * - DELETE /users/:id?policy=orphan|reattach|cascade
+ * - GET    /stats
+ * - GET    /rankings/reach?k=N, /rankings/flow?k=N
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ReferralNetwork } from './ReferralNetwork.js';
+import { topKByReach, topKByFlowCentrality } from './influence.js';
+import { ReferralError, ReferralErrorType, RemovalPolicy, Result, UserId } from './types/index.js';
+
+/**
+ * HTTP status returned for each ReferralErrorType
+ */
+export const HTTP_STATUS_BY_ERROR_TYPE: Record<ReferralErrorType, number> = {
+  [ReferralErrorType.SELF_REFERRAL]: 400,
+  [ReferralErrorType.MULTIPLE_REFERRERS]: 409,
+  [ReferralErrorType.CYCLE_DETECTED]: 409,
+  [ReferralErrorType.NETWORK_SIZE_LIMIT]: 409,
+  [ReferralErrorType.REFERRAL_LIMIT]: 409,
+  [ReferralErrorType.USER_NOT_FOUND]: 404,
+  [ReferralErrorType.INVALID_INPUT]: 400,
+  [ReferralErrorType.STORAGE_ERROR]: 500,
+  [ReferralErrorType.RULE_VIOLATION]: 409,
+  [ReferralErrorType.QUOTA_EXCEEDED]: 429
+};
+
+/**
+ * Options for the HTTP server
+ */
+export interface ReferralServerOptions {
+  /** Largest accepted request body in bytes (default: 1 MiB) */
+  maxBodyBytes?: number;
+  /** Time allowed for in-flight requests to finish on close (default: 10 s) */
+  shutdownTimeoutMs?: number;
+}
+
+/**
+ * Error with an HTTP status that does not correspond to a ReferralErrorType
+ */
+class HttpError extends Error {
+  public readonly status: number;
+  public readonly type: string;
+
+  constructor(status: number, type: string, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.type = type;
+  }
+}
+
+type RouteHandler = (request: IncomingMessage, url: URL, params: string[]) => Promise<[number, unknown]>;
+
+interface Route {
+  method: string;
+  /** Path segments; segments starting with ':' capture a parameter */
+  pattern: string[];
+  handler: RouteHandler;
+}
+
+interface RouteMatch {
+  handler: RouteHandler;
+  params: string[];
+}
+
+/**
+ * HTTP server exposing a ReferralNetwork as a JSON API
+ */
+export class ReferralHttpServer {
+  private readonly network: ReferralNetwork;
+  private readonly maxBodyBytes: number;
+  private readonly shutdownTimeoutMs: number;
+  private readonly server: Server;
+  private activeRequests = 0;
+  private closing: Promise<void> | null = null;
+
+  constructor(network: ReferralNetwork, options: ReferralServerOptions = {}) {
+    this.network = network;
+    this.maxBodyBytes = options.maxBodyBytes ?? 1024 * 1024;
+    this.shutdownTimeoutMs = options.shutdownTimeoutMs ?? 10_000;
+    this.server = createServer((request, response) => {
+      void this.handle(request, response);
+    });
+  }
+
+  /**
+   * Start listening for requests
+   *
+   * @param port - Port to listen on (0 picks a free port)
+   * @param host - Interface to bind (default: all interfaces)
+   * @returns The port the server is listening on
+   */
+  async listen(port: number, host?: string): Promise<number> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Stop accepting connections and wait for in-flight requests to finish
+   *
+   * Idle keep-alive connections are closed immediately; connections still
+   * busy after the shutdown timeout are destroyed.
+   */
+  close(): Promise<void> {
+    if (this.closing) {
+      return this.closing;
+    }
+
+    this.closing = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => this.server.closeAllConnections(), this.shutdownTimeoutMs);
+      timer.unref();
+
+      this.server.close(error => {
+        clearTimeout(timer);
+        if (error && (error as NodeJS.ErrnoException).code !== 'ERR_SERVER_NOT_RUNNING') {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+      this.server.closeIdleConnections();
+    });
+    return this.closing;
+  }
+
+  /**
+   * Number of requests currently being handled
+   */
+  get inFlightRequests(): number {
+    return this.activeRequests;
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    this.activeRequests++;
+    try {
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      const route = this.route(request.method ?? 'GET', url.pathname);
+      const [status, body] = await route.handler(request, url, route.params);
+      this.send(response, status, body);
+    } catch (error) {
+      this.sendError(response, error);
+    } finally {
+      this.activeRequests--;
+      // Let keep-alive clients know the connection will not be reused
+      if (this.closing) {
+        this.server.closeIdleConnections();
+      }
+    }
+  }
+
+  private route(method: string, pathname: string): RouteMatch {
+    const segments = pathname.split('/').filter(segment => segment !== '').map(decodeSegment);
+    const routes: Route[] = [
+      {
+        method: 'POST',
+        pattern: ['referrals'],
+        handler: request => this.addReferral(request)
+      },
+      {
+        method: 'GET',
+        pattern: ['users', ':id', 'referrals'],
+        handler: (_request, url, params) => this.referrals(params[0] ?? '', url)
+      },
+      {
+        method: 'GET',
+        pattern: ['users', ':id', 'ancestors'],
+        handler: (_request, _url, params) => this.ancestors(params[0] ?? '')
+      },
+      {
+        method: 'DELETE',
+        pattern: ['users', ':id'],
+        handler: (_request, url, params) => this.removeUser(params[0] ?? '', url)
+      },
+      {
+        method: 'GET',
+        pattern: ['stats'],
+        handler: () => this.stats()
+      },
+      {
+        method: 'GET',
+        pattern: ['rankings', ':metric'],
+        handler: (_request, url, params) => this.rankings(params[0] ?? '', url)
+      }
+    ];
+
+    let pathMatched = false;
+    for (const route of routes) {
+      const params = matchPath(route.pattern, segments);
+      if (!params) {
+        continue;
+      }
+      pathMatched = true;
+      if (route.method === method) {
+        return { handler: route.handler, params };
+      }
+    }
+
+    if (pathMatched) {
+      throw new HttpError(405, 'METHOD_NOT_ALLOWED', `Method ${method} not allowed for ${pathname}`);
+    }
+    throw new HttpError(404, 'NOT_FOUND', `No route for ${method} ${pathname}`);
+  }
+
+  // Route handlers
+
+  private async addReferral(request: IncomingMessage): Promise<[number, unknown]> {
+    const body = await this.readJson(request);
+    const { referrer, candidate, createdAt } = body as { referrer?: unknown; candidate?: unknown; createdAt?: unknown };
+    if (typeof referrer !== 'string' || typeof candidate !== 'string') {
+      throw new ReferralError(
+        ReferralErrorType.INVALID_INPUT,
+        'Body must be a JSON object with string "referrer" and "candidate" fields'
+      );
+    }
+    if (createdAt !== undefined && typeof createdAt !== 'string') {
+      throw new ReferralError(ReferralErrorType.INVALID_INPUT, '"createdAt" must be an ISO 8601 timestamp');
+    }
+
+    const options = createdAt === undefined ? {} : { createdAt: new Date(createdAt) };
+    unwrap(await this.network.addReferral(referrer, candidate, options));
+    return [201, { referrer, candidate }];
+  }
+
+  private async referrals(user: UserId, url: URL): Promise<[number, unknown]> {
+    const scope = url.searchParams.get('scope') ?? 'direct';
+    if (scope !== 'direct' && scope !== 'all') {
+      throw new ReferralError(ReferralErrorType.INVALID_INPUT, 'scope must be "direct" or "all"', { scope });
+    }
+
+    await this.requireUser(user);
+    const referrals = scope === 'direct'
+      ? unwrap(await this.network.directReferrals(user))
+      : unwrap(await this.network.allReferrals(user));
+    return [200, { user, scope, referrals }];
+  }
+
+  private async ancestors(user: UserId): Promise<[number, unknown]> {
+    const ancestors = unwrap(await this.network.ancestors(user));
+    return [200, { user, ancestors }];
+  }
+
+  private async removeUser(user: UserId, url: URL): Promise<[number, unknown]> {
+    const policy = (url.searchParams.get('policy') ?? 'orphan') as RemovalPolicy;
+
+    await this.requireUser(user);
+    const report = unwrap(await this.network.removeUser(user, { policy }));
+    return [200, report];
+  }
+
+  private async stats(): Promise<[number, unknown]> {
+    return [200, unwrap(await this.network.getNetworkStats())];
+  }
+
+  private async rankings(metric: string, url: URL): Promise<[number, unknown]> {
+    if (metric !== 'reach' && metric !== 'flow') {
+      throw new HttpError(404, 'NOT_FOUND', `Unknown ranking "${metric}"`);
+    }
+
+    const rawK = url.searchParams.get('k') ?? '5';
+    const k = Number(rawK);
+    if (rawK.trim() === '' || !Number.isInteger(k) || k < 0) {
+      throw new ReferralError(ReferralErrorType.INVALID_INPUT, 'k must be a non-negative integer', { k: rawK });
+    }
+
+    const users = metric === 'reach' ? await topKByReach(this.network, k) : await topKByFlowCentrality(this.network, k);
+    return [200, { metric, k, users }];
+  }
+
+  // Helpers
+
+  private async requireUser(user: UserId): Promise<void> {
+    if (!unwrap(await this.network.userExists(user))) {
+      throw new ReferralError(ReferralErrorType.USER_NOT_FOUND, 'User not found', { user });
+    }
+  }
+
+  private async readJson(request: IncomingMessage): Promise<unknown> {
+    const contentType = request.headers['content-type'] ?? '';
+    if (!/^application\/json\b/i.test(contentType)) {
+      throw new HttpError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Content-Type must be application/json');
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+      size += (chunk as Buffer).length;
+      if (size > this.maxBodyBytes) {
+        throw new HttpError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${this.maxBodyBytes} bytes`);
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      const body: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new Error('expected an object');
+      }
+      return body;
+    } catch (error) {
+      throw new ReferralError(
+        ReferralErrorType.INVALID_INPUT,
+        `Invalid JSON body: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private send(response: ServerResponse, status: number, body: unknown): void {
+    const payload = JSON.stringify(body);
+    response.writeHead(status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Length': Buffer.byteLength(payload),
+      ...(this.closing ? { Connection: 'close' } : {})
+    });
+    response.end(payload);
+  }
+
+  private sendError(response: ServerResponse, error: unknown): void {
+    if (error instanceof HttpError) {
+      this.send(response, error.status, { error: { type: error.type, message: error.message } });
+      return;
+    }
+
+    const referralError = error instanceof ReferralError
+      ? error
+      : new ReferralError(ReferralErrorType.STORAGE_ERROR, 'Internal server error');
+    this.send(response, HTTP_STATUS_BY_ERROR_TYPE[referralError.type] ?? 500, {
+      error: { type: referralError.type, code: referralError.code, message: referralError.message }
+    });
+  }
+}
+
+/**
+ * Create an HTTP server for a network
+ *
+ * @param network - The referral network to expose
+ * @param options - Body size limit and shutdown timeout
+ * @returns The server; call listen() to start it
+ */
+export function createReferralServer(network: ReferralNetwork, options: ReferralServerOptions = {}): ReferralHttpServer {
+  return new ReferralHttpServer(network, options);
+}
+
+function unwrap<T>(result: Result<T, ReferralError>): T {
+  if (!result.success) {
+    throw result.error;
+  }
+  return result.data;
+}
+
+function matchPath(pattern: string[], segments: string[]): string[] | null {
+  if (pattern.length !== segments.length) {
+    return null;
+  }
+
+  const params: string[] = [];
+  for (let i = 0; i < pattern.length; i++) {
+    const part = pattern[i] ?? '';
+    const segment = segments[i] ?? '';
+    if (part.startsWith(':')) {
+      params.push(segment);
+    } else if (part !== segment) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, ReferralErrorType.INVALID_INPUT, 'Malformed URL encoding in path');
+  }
+}
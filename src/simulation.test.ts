@@ -0,0 +1,42 @@
+/**
+ * Tests for the Monte Carlo growth simulator
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { simulateGrowth, validateGrowthSimulation, createSeededRandom } from './index.js';
+
+const options = { initialReferrers: 5, capacity: 3, trials: 200 };
+
+describe('simulateGrowth', () => {
+  it('repeats its output for the same seed', () => {
+    const first = simulateGrowth(0.3, 20, { ...options, seed: 42 });
+    const second = simulateGrowth(0.3, 20, { ...options, seed: 42 });
+    const other = simulateGrowth(0.3, 20, { ...options, seed: 43 });
+
+    assert.deepEqual(first, second);
+    assert.notDeepEqual(first, other);
+    assert.deepEqual(simulateGrowth(0.3, 20, { ...options, random: createSeededRandom(42) }), first);
+  });
+
+  it('reports ordered percentile bands around the mean', () => {
+    const result = simulateGrowth(0.3, 20, { ...options, percentiles: [10, 50, 90] });
+
+    assert.equal(result.days.length, 21);
+    for (const { day, mean, percentiles } of result.days) {
+      const { 10: low, 50: median, 90: high } = percentiles;
+      assert.ok(low !== undefined && median !== undefined && high !== undefined);
+      assert.ok(options.initialReferrers <= low, `day ${day}`);
+      assert.ok(low <= median && median <= high, `day ${day}`);
+      assert.ok(low <= mean && mean <= high, `day ${day}`);
+    }
+    const last = result.days[20]?.percentiles;
+    assert.ok(last && (last[10] ?? 0) < (last[90] ?? 0));
+  });
+
+  it('converges to the expected network size', () => {
+    const validation = validateGrowthSimulation(0.3, 20, { ...options, trials: 1000 });
+
+    assert.equal(validation.converged, true, `z = ${validation.maxZScore}`);
+  });
+});
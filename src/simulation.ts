@@ -0,0 +1,306 @@
+/**
+ * Stochastic growth simulation for the Referral Network
+ *
+ * Runs the growth model from growth.ts as a Monte Carlo simulation so the
+ * spread of outcomes (not just the expected value) can be reported.
+ */
+
+import {
+  expectedGrowthCurve,
+  GrowthModelOptions,
+  resolveGrowthOptions,
+  validateGrowthInput
+} from './growth.js';
+
+/**
+ * Source of uniformly distributed numbers in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Options for a growth simulation
+ */
+export interface SimulationOptions extends GrowthModelOptions {
+  /** Number of independent simulated runs (default: 1000) */
+  trials?: number;
+  /** Percentiles to report, between 0 and 100 (default: [10, 50, 90]) */
+  percentiles?: number[];
+  /** Random number source (default: seeded PRNG using `seed`) */
+  random?: RandomSource;
+  /** Seed for the default PRNG, ignored when `random` is given (default: 1) */
+  seed?: number;
+}
+
+/**
+ * Distribution of the network size at the end of one day
+ */
+export interface DailyGrowthStats {
+  day: number;
+  mean: number;
+  variance: number;
+  percentiles: Record<number, number>;
+}
+
+/**
+ * Result of a growth simulation
+ */
+export interface SimulationResult {
+  trials: number;
+  days: DailyGrowthStats[];
+}
+
+/**
+ * Comparison between the simulated and analytic expected network size
+ */
+export interface SimulationValidation {
+  /** Analytic expected size at the end of the period */
+  expected: number;
+  /** Simulated mean size at the end of the period */
+  simulatedMean: number;
+  /** Standard error of the simulated mean */
+  standardError: number;
+  /** Largest |simulated − expected| / standardError over all days */
+  maxZScore: number;
+  /** Whether every day's simulated mean lies within the tolerance */
+  converged: boolean;
+}
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ *
+ * @param seed - Any 32-bit integer; the same seed yields the same sequence
+ * @returns Random source producing numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Simulate network growth and summarize the size distribution per day
+ *
+ * Each trial follows the same rules as expectedNetworkSize: every active
+ * referrer succeeds independently with probability p per day, a success
+ * consumes one unit of capacity, and new referrers become active
+ * `joinLatency` days later.
+ *
+ * @param p - Per-day probability of a successful referral (0 ≤ p ≤ 1)
+ * @param days - The last day of the period (days 0..days are simulated)
+ * @param options - Trial count, percentiles, random source and model overrides
+ * @returns Mean, sample variance and percentiles of the network size for each day
+ */
+export function simulateGrowth(p: number, days: number, options: SimulationOptions = {}): SimulationResult {
+  const model = resolveGrowthOptions(options);
+  validateGrowthInput(p, days);
+
+  const trials = options.trials ?? 1000;
+  const percentiles = options.percentiles ?? [10, 50, 90];
+  const random = options.random ?? createSeededRandom(options.seed ?? 1);
+
+  if (!Number.isInteger(trials) || trials < 1) {
+    throw new Error('trials must be a positive integer');
+  }
+  if (!Number.isInteger(model.initialReferrers)) {
+    throw new Error('initialReferrers must be an integer for simulation');
+  }
+  for (const percentile of percentiles) {
+    if (!Number.isFinite(percentile) || percentile < 0 || percentile > 100) {
+      throw new Error('percentiles must be between 0 and 100');
+    }
+  }
+
+  // samples[d][t] = network size at the end of day d in trial t
+  const samples: Float64Array[] = [];
+  for (let day = 0; day <= days; day++) {
+    samples.push(new Float64Array(trials));
+  }
+
+  for (let trial = 0; trial < trials; trial++) {
+    runTrial(p, days, model, random, (day, size) => {
+      const daySamples = samples[day];
+      if (daySamples) {
+        daySamples[trial] = size;
+      }
+    });
+  }
+
+  return {
+    trials,
+    days: samples.map((daySamples, day) => summarize(day, daySamples, percentiles))
+  };
+}
+
+/**
+ * Check that the simulated mean converges to the analytic expected size
+ *
+ * @param p - Per-day probability of a successful referral (0 ≤ p ≤ 1)
+ * @param days - The last day of the period
+ * @param options - Simulation options
+ * @param tolerance - Allowed deviation in standard errors (default: 4)
+ * @returns The analytic and simulated means and whether they agree on every day
+ */
+export function validateGrowthSimulation(
+  p: number,
+  days: number,
+  options: SimulationOptions = {},
+  tolerance = 4
+): SimulationValidation {
+  const simulation = simulateGrowth(p, days, { ...options, percentiles: [] });
+  const curve = expectedGrowthCurve(p, days, options);
+
+  let maxZScore = 0;
+  let converged = true;
+  let finalStandardError = 0;
+
+  for (const stats of simulation.days) {
+    const expected = curve[stats.day] ?? 0;
+    const standardError = Math.sqrt(stats.variance / simulation.trials);
+    const deviation = Math.abs(stats.mean - expected);
+    finalStandardError = standardError;
+
+    if (standardError === 0) {
+      // A degenerate distribution must match exactly (up to rounding)
+      if (deviation > 1e-9 * Math.max(1, expected)) {
+        converged = false;
+        maxZScore = Infinity;
+      }
+      continue;
+    }
+
+    const zScore = deviation / standardError;
+    maxZScore = Math.max(maxZScore, zScore);
+    if (zScore > tolerance) {
+      converged = false;
+    }
+  }
+
+  const last = simulation.days[simulation.days.length - 1];
+  return {
+    expected: curve[days] ?? 0,
+    simulatedMean: last ? last.mean : 0,
+    standardError: finalStandardError,
+    maxZScore,
+    converged
+  };
+}
+
+function runTrial(
+  p: number,
+  days: number,
+  model: Required<GrowthModelOptions>,
+  random: RandomSource,
+  onDay: (day: number, size: number) => void
+): void {
+  const { initialReferrers, capacity, joinLatency } = model;
+
+  // active[c] = number of active referrers with c units of capacity left
+  const active = new Array<number>(capacity + 1).fill(0);
+  active[capacity] = initialReferrers;
+  const arrivals = new Array<number>(joinLatency).fill(0);
+  let size = initialReferrers;
+
+  for (let day = 0; day <= days; day++) {
+    const slot = day % joinLatency;
+    active[capacity] = (active[capacity] ?? 0) + (arrivals[slot] ?? 0);
+
+    // Lower levels first so referrers moved down today are not drawn twice
+    let successes = 0;
+    for (let c = 1; c <= capacity; c++) {
+      const count = active[c] ?? 0;
+      if (count === 0) {
+        continue;
+      }
+      const moved = sampleBinomial(count, p, random);
+      active[c] = count - moved;
+      active[c - 1] = (active[c - 1] ?? 0) + moved;
+      successes += moved;
+    }
+
+    size += successes;
+    arrivals[slot] = successes;
+    onDay(day, size);
+  }
+}
+
+/**
+ * Draw from Binomial(n, p)
+ *
+ * Small expected counts are sampled exactly by skipping geometrically
+ * distributed gaps between successes; large ones use the normal
+ * approximation, whose error is negligible at that scale.
+ */
+function sampleBinomial(n: number, p: number, random: RandomSource): number {
+  if (p <= 0) {
+    return 0;
+  }
+  if (p >= 1) {
+    return n;
+  }
+  if (p > 0.5) {
+    return n - sampleBinomial(n, 1 - p, random);
+  }
+
+  const mean = n * p;
+  if (mean < 30) {
+    const logQ = Math.log1p(-p);
+    let successes = 0;
+    let position = 0;
+    for (;;) {
+      position += Math.floor(Math.log(1 - random()) / logQ) + 1;
+      if (position > n) {
+        return successes;
+      }
+      successes++;
+    }
+  }
+
+  const draw = Math.round(mean + Math.sqrt(mean * (1 - p)) * sampleStandardNormal(random));
+  return Math.min(n, Math.max(0, draw));
+}
+
+function sampleStandardNormal(random: RandomSource): number {
+  // Box-Muller transform; 1 - random() avoids log(0)
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function summarize(day: number, daySamples: Float64Array, percentiles: number[]): DailyGrowthStats {
+  const count = daySamples.length;
+  let sum = 0;
+  for (const value of daySamples) {
+    sum += value;
+  }
+  const mean = sum / count;
+
+  let squaredDeviations = 0;
+  for (const value of daySamples) {
+    squaredDeviations += (value - mean) ** 2;
+  }
+  const variance = count > 1 ? squaredDeviations / (count - 1) : 0;
+
+  const result: Record<number, number> = {};
+  if (percentiles.length > 0) {
+    const sorted = Float64Array.from(daySamples).sort();
+    for (const percentile of percentiles) {
+      result[percentile] = interpolatePercentile(sorted, percentile);
+    }
+  }
+
+  return { day, mean, variance, percentiles: result };
+}
+
+function interpolatePercentile(sorted: Float64Array, percentile: number): number {
+  const rank = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const lowerValue = sorted[lower] ?? 0;
+  const upperValue = sorted[upper] ?? lowerValue;
+  return lowerValue + (upperValue - lowerValue) * (rank - lower);
+}
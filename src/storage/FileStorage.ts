@@ -0,0 +1,483 @@
+/**
+ * File-backed implementation of IReferralStorage
+ *
+ * Durable storage for small deployments that have no database server. The
+ * network is held in memory by an InMemoryStorage; every committed change is
+ * also appended to an NDJSON operation log and fsynced before the call
+ * resolves. The log is periodically folded into a compacted snapshot, and
+ * initialize() rebuilds the network by loading the snapshot and replaying
+ * the log entries written after it.
+ *
+ * Files, for a storage at `path`:
+ * - `path`: the log, one `{"seq":N,"ops":[...]}` entry per line. Each entry
+ *   holds the operations of one committed transaction.
+ * - `path.snapshot`: the state as of entry `sequence`, replaced atomically.
+ *
+ * An entry only counts once its trailing newline is on disk, so a final line
+ * cut short by a crash is discarded on the next start.
+ */
+
+import { mkdir, open, readFile, rename, truncate, FileHandle } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { IReferralStorage } from './interfaces.js';
+import { InMemoryStorage, InMemoryStorageState } from './InMemoryStorage.js';
+import { WriteLock } from '../WriteLock.js';
+import {
+  UserId,
+  UserNode,
+  ReferralRelationship,
+  NetworkStats,
+  TraversalOptions,
+  TraversalEntry,
+  UserHistoryEntry,
+  ReferralHistoryEntry
+} from '../types/index.js';
+
+/**
+ * Options for a FileStorage
+ */
+export interface FileStorageOptions {
+  /** Path of the operation log; the snapshot is stored next to it */
+  path: string;
+  /** Log entries written since the last snapshot before compacting (default: 1000) */
+  compactThreshold?: number;
+  /** Flush every write to disk before it resolves (default: true) */
+  fsync?: boolean;
+}
+
+/**
+ * A single change, as recorded in the log
+ */
+type LogOperation =
+  | { type: 'addUser'; userId: UserId; createdAt: string }
+  | { type: 'addReferral'; referrer: UserId; candidate: UserId; createdAt: string }
+  | { type: 'removeUser'; userId: UserId; removedAt: string }
+  | { type: 'removeReferral'; referrer: UserId; candidate: UserId; removedAt: string }
+  | { type: 'clear' };
+
+interface LogEntry {
+  seq: number;
+  ops: LogOperation[];
+}
+
+interface SnapshotFile {
+  version: number;
+  sequence: number;
+  state: InMemoryStorageState;
+}
+
+const SNAPSHOT_VERSION = 1;
+const DEFAULT_COMPACT_THRESHOLD = 1000;
+
+export class FileStorage implements IReferralStorage {
+  private readonly memory = new InMemoryStorage();
+  private readonly path: string;
+  private readonly snapshotPath: string;
+  private readonly compactThreshold: number;
+  private readonly fsync: boolean;
+  // Serializes appends and compaction on the log file
+  private readonly ioLock = new WriteLock();
+  private log: FileHandle | null = null;
+  private sequence = 0;
+  private entriesSinceSnapshot = 0;
+  // Operations of the running transaction, written when it commits
+  private pending: LogOperation[] | null = null;
+
+  constructor(options: FileStorageOptions) {
+    if (!options.path) {
+      throw new Error('File storage requires a path');
+    }
+    if (options.compactThreshold !== undefined && (!Number.isInteger(options.compactThreshold) || options.compactThreshold < 1)) {
+      throw new Error('compactThreshold must be a positive integer');
+    }
+
+    this.path = options.path;
+    this.snapshotPath = `${options.path}.snapshot`;
+    this.compactThreshold = options.compactThreshold ?? DEFAULT_COMPACT_THRESHOLD;
+    this.fsync = options.fsync ?? true;
+  }
+
+  /**
+   * Load the snapshot and replay the log
+   *
+   * Runs under the I/O lock, so overlapping calls load the files once and
+   * later ones return when the first has finished.
+   */
+  async initialize(): Promise<void> {
+    await this.ioLock.runExclusive(async () => {
+      if (this.log) {
+        return;
+      }
+
+      await mkdir(dirname(this.path), { recursive: true });
+      await this.memory.initialize();
+      this.sequence = 0;
+      this.entriesSinceSnapshot = 0;
+
+      const snapshot = await this.readSnapshot();
+      if (snapshot) {
+        this.memory.loadState(snapshot.state);
+        this.sequence = snapshot.sequence;
+      }
+      await this.replayLog();
+
+      this.log = await open(this.path, 'a');
+    });
+  }
+
+  /**
+   * Close the log; the files are kept so the network can be reopened
+   */
+  async destroy(): Promise<void> {
+    await this.ioLock.runExclusive(async () => {
+      await this.log?.close();
+      this.log = null;
+    });
+    await this.memory.destroy();
+  }
+
+  async addUser(userId: UserId, createdAt: Date = new Date()): Promise<void> {
+    await this.write({ type: 'addUser', userId, createdAt: createdAt.toISOString() });
+  }
+
+  async getUser(userId: UserId): Promise<UserNode | null> {
+    return this.memory.getUser(userId);
+  }
+
+  async userExists(userId: UserId): Promise<boolean> {
+    return this.memory.userExists(userId);
+  }
+
+  async addReferral(referrer: UserId, candidate: UserId, createdAt: Date = new Date()): Promise<void> {
+    await this.write({ type: 'addReferral', referrer, candidate, createdAt: createdAt.toISOString() });
+  }
+
+  async getAllUsers(): Promise<UserNode[]> {
+    return this.memory.getAllUsers();
+  }
+
+  async getDirectReferrals(userId: UserId): Promise<UserId[]> {
+    return this.memory.getDirectReferrals(userId);
+  }
+
+  async getAllReferrals(userId: UserId): Promise<UserId[]> {
+    return this.memory.getAllReferrals(userId);
+  }
+
+  traverseReferrals(userId: UserId, options: TraversalOptions = {}): AsyncIterable<TraversalEntry> {
+    return this.memory.traverseReferrals(userId, options);
+  }
+
+  async getParent(userId: UserId): Promise<UserId | null> {
+    return this.memory.getParent(userId);
+  }
+
+  async getParents(userId: UserId): Promise<UserId[]> {
+    return this.memory.getParents(userId);
+  }
+
+  async getAncestors(userId: UserId): Promise<UserId[]> {
+    return this.memory.getAncestors(userId);
+  }
+
+  async getDepth(userId: UserId): Promise<number> {
+    return this.memory.getDepth(userId);
+  }
+
+  async getRoot(userId: UserId): Promise<UserId> {
+    return this.memory.getRoot(userId);
+  }
+
+  async getLowestCommonAncestor(a: UserId, b: UserId): Promise<UserId | null> {
+    return this.memory.getLowestCommonAncestor(a, b);
+  }
+
+  async getReferralPath(from: UserId, to: UserId): Promise<UserId[] | null> {
+    return this.memory.getReferralPath(from, to);
+  }
+
+  async getReach(userId: UserId): Promise<number> {
+    return this.memory.getReach(userId);
+  }
+
+  async getReachScores(): Promise<Map<UserId, number>> {
+    return this.memory.getReachScores();
+  }
+
+  async getUserCount(): Promise<number> {
+    return this.memory.getUserCount();
+  }
+
+  async getNetworkStats(): Promise<NetworkStats> {
+    return this.memory.getNetworkStats();
+  }
+
+  async isAncestor(ancestor: UserId, userId: UserId): Promise<boolean> {
+    return this.memory.isAncestor(ancestor, userId);
+  }
+
+  async getAllReferralRelationships(): Promise<ReferralRelationship[]> {
+    return this.memory.getAllReferralRelationships();
+  }
+
+  async getReferralRelationships(referrer: UserId): Promise<ReferralRelationship[]> {
+    return this.memory.getReferralRelationships(referrer);
+  }
+
+  async removeUser(userId: UserId, removedAt: Date = new Date()): Promise<void> {
+    await this.write({ type: 'removeUser', userId, removedAt: removedAt.toISOString() });
+  }
+
+  async removeReferral(referrer: UserId, candidate: UserId, removedAt: Date = new Date()): Promise<void> {
+    await this.write({ type: 'removeReferral', referrer, candidate, removedAt: removedAt.toISOString() });
+  }
+
+  async getUserHistory(): Promise<UserHistoryEntry[]> {
+    return this.memory.getUserHistory();
+  }
+
+  async getReferralHistory(): Promise<ReferralHistoryEntry[]> {
+    return this.memory.getReferralHistory();
+  }
+
+  /**
+   * Run an operation as a single transaction
+   *
+   * Its changes are written to the log as one entry when it commits. If the
+   * operation or the write fails, the in-memory changes are rolled back.
+   */
+  async runInTransaction<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.pending) {
+      return operation();
+    }
+
+    const ops: LogOperation[] = [];
+    this.pending = ops;
+    let result: T;
+    try {
+      result = await this.memory.runInTransaction(async () => {
+        const value = await operation();
+        if (ops.length > 0) {
+          await this.append(ops);
+        }
+        return value;
+      });
+    } finally {
+      this.pending = null;
+    }
+
+    await this.compactIfDue();
+    return result;
+  }
+
+  async clear(): Promise<void> {
+    await this.write({ type: 'clear' });
+  }
+
+  /**
+   * Write a snapshot of the current state and empty the log
+   *
+   * The snapshot is written to a temporary file and renamed into place, so a
+   * crash leaves either the old or the new snapshot. Log entries already in
+   * the snapshot are skipped on replay, so a crash before the log is
+   * truncated loses nothing either.
+   */
+  async compact(): Promise<void> {
+    if (this.pending) {
+      throw new Error('Cannot compact during a transaction');
+    }
+
+    await this.ioLock.runExclusive(async () => {
+      const log = this.requireLog();
+      const snapshot: SnapshotFile = {
+        version: SNAPSHOT_VERSION,
+        sequence: this.sequence,
+        state: this.memory.exportState()
+      };
+
+      const temporaryPath = `${this.snapshotPath}.tmp`;
+      const file = await open(temporaryPath, 'w');
+      try {
+        await file.writeFile(JSON.stringify(snapshot));
+        await file.sync();
+      } finally {
+        await file.close();
+      }
+      await rename(temporaryPath, this.snapshotPath);
+      await syncDirectory(dirname(this.path));
+
+      await log.truncate(0);
+      if (this.fsync) {
+        await log.sync();
+      }
+      this.entriesSinceSnapshot = 0;
+    });
+  }
+
+  /**
+   * Record an operation and apply it to the in-memory network
+   */
+  private async write(operation: LogOperation): Promise<void> {
+    this.requireLog();
+    if (this.pending) {
+      this.pending.push(operation);
+      await applyOperation(this.memory, operation);
+      return;
+    }
+
+    // Outside a transaction, log first so a failed write changes nothing
+    await this.append([operation]);
+    await applyOperation(this.memory, operation);
+    await this.compactIfDue();
+  }
+
+  private async compactIfDue(): Promise<void> {
+    if (this.entriesSinceSnapshot >= this.compactThreshold) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * Append one log entry and wait for it to reach the disk
+   */
+  private async append(ops: LogOperation[]): Promise<void> {
+    await this.ioLock.runExclusive(async () => {
+      const log = this.requireLog();
+      const entry: LogEntry = { seq: this.sequence + 1, ops };
+      await log.appendFile(`${JSON.stringify(entry)}\n`);
+      if (this.fsync) {
+        await log.sync();
+      }
+      this.sequence = entry.seq;
+      this.entriesSinceSnapshot++;
+    });
+  }
+
+  private requireLog(): FileHandle {
+    if (!this.log) {
+      throw new Error('File storage is not initialized');
+    }
+    return this.log;
+  }
+
+  private async readSnapshot(): Promise<SnapshotFile | null> {
+    const contents = await readIfExists(this.snapshotPath);
+    if (contents === null) {
+      return null;
+    }
+
+    const snapshot = JSON.parse(contents.toString('utf8')) as SnapshotFile;
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version: ${snapshot.version}`);
+    }
+    return { ...snapshot, state: reviveState(snapshot.state) };
+  }
+
+  /**
+   * Apply the log entries written after the snapshot
+   *
+   * A final line without its newline was never acknowledged, so it is cut
+   * off; any other unreadable line means the log is corrupt.
+   */
+  private async replayLog(): Promise<void> {
+    const contents = await readIfExists(this.path);
+    if (contents === null) {
+      return;
+    }
+
+    const end = contents.lastIndexOf('\n') + 1;
+    if (end < contents.length) {
+      await truncate(this.path, end);
+    }
+
+    const lines = contents.subarray(0, end).toString('utf8').split('\n');
+    for (const [index, line] of lines.entries()) {
+      if (line.trim() === '') {
+        continue;
+      }
+
+      let entry: LogEntry;
+      try {
+        entry = JSON.parse(line) as LogEntry;
+      } catch {
+        throw new Error(`Corrupt storage log ${this.path} at line ${index + 1}`);
+      }
+      if (entry.seq <= this.sequence) {
+        continue; // Already part of the snapshot
+      }
+
+      for (const operation of entry.ops) {
+        await applyOperation(this.memory, operation);
+      }
+      this.sequence = entry.seq;
+      this.entriesSinceSnapshot++;
+    }
+  }
+}
+
+async function applyOperation(storage: InMemoryStorage, operation: LogOperation): Promise<void> {
+  switch (operation.type) {
+    case 'addUser':
+      return storage.addUser(operation.userId, new Date(operation.createdAt));
+    case 'addReferral':
+      return storage.addReferral(operation.referrer, operation.candidate, new Date(operation.createdAt));
+    case 'removeUser':
+      return storage.removeUser(operation.userId, new Date(operation.removedAt));
+    case 'removeReferral':
+      return storage.removeReferral(operation.referrer, operation.candidate, new Date(operation.removedAt));
+    case 'clear':
+      return storage.clear();
+  }
+}
+
+/**
+ * Turn the ISO strings of a parsed snapshot back into dates
+ */
+function reviveState(state: InMemoryStorageState): InMemoryStorageState {
+  const toDate = (value: Date | string): Date => new Date(value);
+  return {
+    users: state.users.map(node => ({ ...node, createdAt: toDate(node.createdAt) })),
+    referrals: state.referrals.map(referral => ({ ...referral, createdAt: toDate(referral.createdAt) })),
+    removedUsers: state.removedUsers.map(entry => ({
+      ...entry,
+      createdAt: toDate(entry.createdAt),
+      ...(entry.removedAt !== undefined && { removedAt: toDate(entry.removedAt) })
+    })),
+    removedReferrals: state.removedReferrals.map(entry => ({
+      ...entry,
+      createdAt: toDate(entry.createdAt),
+      ...(entry.removedAt !== undefined && { removedAt: toDate(entry.removedAt) })
+    }))
+  };
+}
+
+async function readIfExists(path: string): Promise<Buffer | null> {
+  try {
+    return await readFile(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Flush a directory so a rename inside it survives a crash; platforms that
+ * cannot open directories skip this
+ */
+async function syncDirectory(path: string): Promise<void> {
+  let directory: FileHandle;
+  try {
+    directory = await open(path, 'r');
+  } catch {
+    return;
+  }
+  try {
+    await directory.sync();
+  } catch {
+    // Some file systems do not support syncing directories
+  } finally {
+    await directory.close();
+  }
+}
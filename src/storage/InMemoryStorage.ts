@@ -12,13 +12,41 @@ import {
   UserId, 
   UserNode, 
   ReferralRelationship, 
-  NetworkStats
+  NetworkStats,
+  TraversalOptions,
+  TraversalEntry,
+  UserHistoryEntry,
+  ReferralHistoryEntry
 } from '../types/index.js';
+import { ReachIndex } from './ReachIndex.js';
+import { condense, longestComponentChain } from '../components.js';
+import {
+  walkDescendants,
+  walkAncestors,
+  nearestRoot,
+  lowestCommonAncestor,
+  referralPath
+} from './walks.js';
+
+/**
+ * Complete contents of an InMemoryStorage, including removal history
+ */
+export interface InMemoryStorageState {
+  users: UserNode[];
+  referrals: ReferralRelationship[];
+  removedUsers: UserHistoryEntry[];
+  removedReferrals: ReferralHistoryEntry[];
+}
 
 export class InMemoryStorage implements IReferralStorage {
   private users: Map<UserId, UserNode> = new Map();
   private referrals: Map<string, ReferralRelationship> = new Map();
+  // Users and referrals that have been removed, kept for historical queries
+  private removedUsers: UserHistoryEntry[] = [];
+  private removedReferrals: ReferralHistoryEntry[] = [];
+  private reachIndex = new ReachIndex(() => this.users);
   private isInitialized = false;
+  private inTransaction = false;
 
   async initialize(): Promise<void> {
     if (this.isInitialized) {
@@ -27,12 +55,18 @@ export class InMemoryStorage implements IReferralStorage {
     
     this.users.clear();
     this.referrals.clear();
+    this.removedUsers = [];
+    this.removedReferrals = [];
+    this.reachIndex.clear();
     this.isInitialized = true;
   }
 
   async destroy(): Promise<void> {
     this.users.clear();
     this.referrals.clear();
+    this.removedUsers = [];
+    this.removedReferrals = [];
+    this.reachIndex.clear();
     this.isInitialized = false;
   }
 
@@ -44,8 +78,10 @@ export class InMemoryStorage implements IReferralStorage {
     this.users.set(userId, {
       userId,
       directReferrals: [],
+      parents: [],
       createdAt
     });
+    this.reachIndex.addUser(userId);
   }
 
   async getUser(userId: UserId): Promise<UserNode | null> {
@@ -59,12 +95,14 @@ export class InMemoryStorage implements IReferralStorage {
   async addReferral(referrer: UserId, candidate: UserId, createdAt: Date = new Date()): Promise<void> {
     const referralKey = `${referrer}:${candidate}`;
     
-    // Add the referral relationship
-    this.referrals.set(referralKey, {
-      referrer,
-      candidate,
-      createdAt
-    });
+    // Add the referral relationship, keeping the original time of a repeat
+    if (!this.referrals.has(referralKey)) {
+      this.referrals.set(referralKey, {
+        referrer,
+        candidate,
+        createdAt
+      });
+    }
 
     // Update user nodes
     await this.addUser(referrer, createdAt);
@@ -73,13 +111,15 @@ export class InMemoryStorage implements IReferralStorage {
     const referrerNode = this.users.get(referrer)!;
     const candidateNode = this.users.get(candidate)!;
 
-    // Add to referrer's direct referrals
-    if (!referrerNode.directReferrals.includes(candidate)) {
-      referrerNode.directReferrals.push(candidate);
+    if (candidateNode.parents.includes(referrer)) {
+      return;
     }
 
-    // Set candidate's parent
-    candidateNode.parent = referrer;
+    // Link both sides; the first referrer stays the candidate's parent
+    referrerNode.directReferrals.push(candidate);
+    candidateNode.parents.push(referrer);
+    candidateNode.parent = candidateNode.parents[0] ?? referrer;
+    this.reachIndex.attach(referrer, candidate);
   }
 
   async getAllUsers(): Promise<UserNode[]> {
@@ -92,49 +132,72 @@ export class InMemoryStorage implements IReferralStorage {
   }
 
   async getAllReferrals(userId: UserId): Promise<UserId[]> {
-    const visited = new Set<UserId>();
     const result: UserId[] = [];
-
-    const dfs = (currentUserId: UserId): void => {
-      if (visited.has(currentUserId)) {
-        return;
-      }
-      visited.add(currentUserId);
-
-      const user = this.users.get(currentUserId);
-      if (!user) {
-        return;
-      }
-
-      for (const childId of user.directReferrals) {
-        result.push(childId);
-        dfs(childId);
-      }
-    };
-
-    dfs(userId);
+    for (const entry of walkDescendants(userId, this.childrenOf, { order: 'dfs' })) {
+      result.push(entry.userId);
+    }
     return result;
   }
 
+  async *traverseReferrals(userId: UserId, options: TraversalOptions = {}): AsyncIterable<TraversalEntry> {
+    yield* walkDescendants(userId, this.childrenOf, options);
+  }
+
   async getParent(userId: UserId): Promise<UserId | null> {
     const user = this.users.get(userId);
     return user?.parent || null;
   }
 
+  async getParents(userId: UserId): Promise<UserId[]> {
+    const user = this.users.get(userId);
+    return user ? [...user.parents] : [];
+  }
+
+  async getAncestors(userId: UserId): Promise<UserId[]> {
+    return Array.from(walkAncestors(userId, this.parentsOf), ancestor => ancestor.userId);
+  }
+
+  async getDepth(userId: UserId): Promise<number> {
+    return nearestRoot(userId, this.parentsOf).distance;
+  }
+
+  async getRoot(userId: UserId): Promise<UserId> {
+    return nearestRoot(userId, this.parentsOf).userId;
+  }
+
+  async getLowestCommonAncestor(a: UserId, b: UserId): Promise<UserId | null> {
+    return lowestCommonAncestor(a, b, this.parentsOf);
+  }
+
+  async getReferralPath(from: UserId, to: UserId): Promise<UserId[] | null> {
+    return referralPath(from, to, this.parentsOf);
+  }
+
+  async getReach(userId: UserId): Promise<number> {
+    return this.reachIndex.get(userId);
+  }
+
+  async getReachScores(): Promise<Map<UserId, number>> {
+    return this.reachIndex.scores();
+  }
+
+  async getUserCount(): Promise<number> {
+    return this.users.size;
+  }
+
   async getNetworkStats(): Promise<NetworkStats> {
     const users = Array.from(this.users.values());
     const totalUsers = users.length;
     const totalReferrals = this.referrals.size;
     
-    let maxDepth = 0;
     let totalReferralsPerUser = 0;
-
     for (const user of users) {
-      const depth = this.calculateDepth(user.userId);
-      maxDepth = Math.max(maxDepth, depth);
       totalReferralsPerUser += user.directReferrals.length;
     }
 
+    const condensation = condense(this.users.keys(), userId => this.users.get(userId)?.directReferrals ?? []);
+    const maxDepth = longestComponentChain(condensation);
+
     const averageReferralsPerUser = totalUsers > 0 ? totalReferralsPerUser / totalUsers : 0;
 
     return {
@@ -145,124 +208,161 @@ export class InMemoryStorage implements IReferralStorage {
     };
   }
 
-  async wouldCreateCycle(referrer: UserId, candidate: UserId): Promise<boolean> {
-    return this.canReach(candidate, referrer);
+  async isAncestor(ancestor: UserId, userId: UserId): Promise<boolean> {
+    for (const entry of walkAncestors(userId, this.parentsOf)) {
+      if (entry.userId === ancestor) {
+        return true;
+      }
+    }
+    return false;
   }
 
   async getAllReferralRelationships(): Promise<ReferralRelationship[]> {
     return Array.from(this.referrals.values());
   }
 
-  async removeUser(userId: UserId): Promise<void> {
+  async getReferralRelationships(referrer: UserId): Promise<ReferralRelationship[]> {
+    const relationships: ReferralRelationship[] = [];
+    for (const candidate of this.users.get(referrer)?.directReferrals ?? []) {
+      const relationship = this.referrals.get(`${referrer}:${candidate}`);
+      if (relationship) {
+        relationships.push(relationship);
+      }
+    }
+    return relationships;
+  }
+
+  async removeUser(userId: UserId, removedAt: Date = new Date()): Promise<void> {
     const user = this.users.get(userId);
     if (!user) {
       return;
     }
 
-    // Remove all referrals where this user is the referrer
-    for (const childId of user.directReferrals) {
-      const referralKey = `${userId}:${childId}`;
-      this.referrals.delete(referralKey);
-      
-      // Remove parent relationship from child
-      const child = this.users.get(childId);
-      if (child) {
-        delete child.parent;
-      }
+    // Remove referrals where this user is the candidate
+    for (const referrerId of [...user.parents]) {
+      await this.removeReferral(referrerId, userId, removedAt);
     }
 
-    // Remove referrals where this user is the candidate
-    for (const [key, referral] of this.referrals.entries()) {
-      if (referral.candidate === userId) {
-        this.referrals.delete(key);
-        
-        // Remove from referrer's direct referrals
-        const referrer = this.users.get(referral.referrer);
-        if (referrer) {
-          referrer.directReferrals = referrer.directReferrals.filter(id => id !== userId);
-        }
-      }
+    // Remove all referrals where this user is the referrer
+    for (const childId of [...user.directReferrals]) {
+      await this.removeReferral(userId, childId, removedAt);
     }
 
     // Remove the user
+    this.removedUsers.push({ userId, createdAt: user.createdAt, removedAt });
     this.users.delete(userId);
+    this.reachIndex.removeUser(userId);
   }
 
-  async removeReferral(referrer: UserId, candidate: UserId): Promise<void> {
+  async removeReferral(referrer: UserId, candidate: UserId, removedAt: Date = new Date()): Promise<void> {
     const referralKey = `${referrer}:${candidate}`;
-    this.referrals.delete(referralKey);
+    const relationship = this.referrals.get(referralKey);
+    if (relationship) {
+      this.removedReferrals.push({ ...relationship, removedAt });
+      this.referrals.delete(referralKey);
+    }
 
-    // Update user nodes
     const referrerNode = this.users.get(referrer);
-    if (referrerNode) {
-      referrerNode.directReferrals = referrerNode.directReferrals.filter(id => id !== candidate);
+    const candidateNode = this.users.get(candidate);
+    if (!referrerNode || !candidateNode || !candidateNode.parents.includes(referrer)) {
+      return;
     }
 
-    const candidateNode = this.users.get(candidate);
-    if (candidateNode) {
+    // Unlink both sides; the next remaining referrer becomes the parent
+    this.reachIndex.detach(referrer, candidate);
+    referrerNode.directReferrals = referrerNode.directReferrals.filter(id => id !== candidate);
+    candidateNode.parents = candidateNode.parents.filter(id => id !== referrer);
+    const [nextParent] = candidateNode.parents;
+    if (nextParent !== undefined) {
+      candidateNode.parent = nextParent;
+    } else {
       delete candidateNode.parent;
     }
   }
 
-  async clear(): Promise<void> {
-    this.users.clear();
-    this.referrals.clear();
+  async getUserHistory(): Promise<UserHistoryEntry[]> {
+    const present = Array.from(this.users.values(), ({ userId, createdAt }) => ({ userId, createdAt }));
+    return [...this.removedUsers, ...present];
   }
 
-  private canReach(start: UserId, target: UserId): boolean {
-    if (start === target) {
-      return true;
-    }
-
-    const visited = new Set<UserId>();
-    const queue: UserId[] = [start];
-    visited.add(start);
-
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      const user = this.users.get(current);
-      
-      if (!user) {
-        continue;
-      }
-
-      for (const childId of user.directReferrals) {
-        if (childId === target) {
-          return true;
-        }
+  async getReferralHistory(): Promise<ReferralHistoryEntry[]> {
+    return [...this.removedReferrals, ...this.referrals.values()];
+  }
 
-        if (!visited.has(childId)) {
-          visited.add(childId);
-          queue.push(childId);
-        }
-      }
+  async runInTransaction<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.inTransaction) {
+      return operation();
     }
 
-    return false;
+    // Snapshot the current state so a failed operation can be undone
+    const users = new Map<UserId, UserNode>();
+    for (const [userId, node] of this.users) {
+      users.set(userId, { ...node, directReferrals: [...node.directReferrals], parents: [...node.parents] });
+    }
+    const referrals = new Map(this.referrals);
+    const removedUserCount = this.removedUsers.length;
+    const removedReferralCount = this.removedReferrals.length;
+    const reach = this.reachIndex.snapshot();
+
+    this.inTransaction = true;
+    try {
+      return await operation();
+    } catch (error) {
+      this.users = users;
+      this.referrals = referrals;
+      // History is append-only, so dropping the new entries undoes it
+      this.removedUsers.length = removedUserCount;
+      this.removedReferrals.length = removedReferralCount;
+      this.reachIndex.restore(reach);
+      throw error;
+    } finally {
+      this.inTransaction = false;
+    }
   }
 
-  private calculateDepth(userId: UserId): number {
-    const visited = new Set<UserId>();
-    
-    const dfs = (currentUserId: UserId): number => {
-      if (visited.has(currentUserId)) {
-        return 0;
-      }
-      visited.add(currentUserId);
-
-      const user = this.users.get(currentUserId);
-      if (!user || user.directReferrals.length === 0) {
-        return 0;
-      }
-
-      let maxChildDepth = 0;
-      for (const childId of user.directReferrals) {
-        maxChildDepth = Math.max(maxChildDepth, dfs(childId));
-      }
+  async clear(): Promise<void> {
+    this.users.clear();
+    this.referrals.clear();
+    this.removedUsers = [];
+    this.removedReferrals = [];
+    this.reachIndex.clear();
+  }
 
-      return 1 + maxChildDepth;
+  /**
+   * Copy out everything needed to rebuild this storage with loadState
+   */
+  exportState(): InMemoryStorageState {
+    return {
+      users: Array.from(this.users.values(), node => ({
+        ...node,
+        directReferrals: [...node.directReferrals],
+        parents: [...node.parents]
+      })),
+      referrals: Array.from(this.referrals.values(), referral => ({ ...referral })),
+      removedUsers: this.removedUsers.map(entry => ({ ...entry })),
+      removedReferrals: this.removedReferrals.map(entry => ({ ...entry }))
     };
+  }
 
-    return dfs(userId);
+  /**
+   * Replace the contents of this storage with a state from exportState
+   */
+  loadState(state: InMemoryStorageState): void {
+    this.users = new Map(state.users.map(node => [node.userId, {
+      ...node,
+      directReferrals: [...node.directReferrals],
+      parents: [...node.parents]
+    }]));
+    this.referrals = new Map(state.referrals.map(referral => [
+      `${referral.referrer}:${referral.candidate}`,
+      { ...referral }
+    ]));
+    this.removedUsers = state.removedUsers.map(entry => ({ ...entry }));
+    this.removedReferrals = state.removedReferrals.map(entry => ({ ...entry }));
+    this.reachIndex.rebuild();
   }
+
+  private readonly childrenOf = (userId: UserId): UserId[] => this.users.get(userId)?.directReferrals ?? [];
+
+  private readonly parentsOf = (userId: UserId): UserId[] => this.users.get(userId)?.parents ?? [];
 }
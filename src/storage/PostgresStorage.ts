@@ -0,0 +1,664 @@
+/**
+ * PostgreSQL implementation of IReferralStorage
+ *
+ * Lets several processes share one referral network. The schema is created
+ * and upgraded by migrate(), which initialize() runs. Descendant and ancestor
+ * queries collect the relevant referrals with recursive CTEs and then run the
+ * same walks as InMemoryStorage, so results come back in the same order.
+ *
+ * Rules that must hold across processes are enforced by the database: unless
+ * multiple referrers are allowed, a unique index on the candidate column
+ * gives every user at most one referrer. That choice is recorded with the
+ * schema when it is first migrated, and a storage whose
+ * `allowMultipleReferrers` disagrees with it fails to initialize rather than
+ * sharing tables with a different rule. Unless cycles are allowed,
+ * addReferral checks for a cycle inside its own serializable transaction.
+ * Transactions that fail to serialize are retried up to `retryAttempts`
+ * times.
+ *
+ * pg is an optional peer dependency, imported by initialize().
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type pg from 'pg';
+import { IReferralStorage } from './interfaces.js';
+import { missingDriver } from './drivers.js';
+import { ReachIndex } from './ReachIndex.js';
+import { condense, longestComponentChain } from '../components.js';
+import {
+  walkDescendants,
+  walkAncestors,
+  nearestRoot,
+  lowestCommonAncestor,
+  referralPath
+} from './walks.js';
+import {
+  UserId,
+  UserNode,
+  ReferralRelationship,
+  NetworkStats,
+  TraversalOptions,
+  TraversalEntry,
+  UserHistoryEntry,
+  ReferralHistoryEntry,
+  ReferralError,
+  ReferralErrorType
+} from '../types/index.js';
+
+/**
+ * Options for a PostgresStorage
+ */
+export interface PostgresStorageOptions {
+  connectionString: string;
+  /** Prefix of every table the storage creates (default: 'referral') */
+  tableName?: string;
+  /** Size of the connection pool (default: 10) */
+  maxConnections?: number;
+  /** Milliseconds to wait for a connection or a query */
+  timeout?: number;
+  /** Times to retry a transaction that failed to serialize (default: 3) */
+  retryAttempts?: number;
+  /** Allow a user to have several referrers (default: false) */
+  allowMultipleReferrers?: boolean;
+  /** Allow referrals that close a cycle (default: false) */
+  allowCycles?: boolean;
+}
+
+interface UserRow {
+  user_id: string;
+  created_at: Date;
+  direct_referrals: string[];
+  parents: string[];
+}
+
+interface ReferralRow {
+  referrer: string;
+  candidate: string;
+  created_at: Date;
+  removed_at?: Date | null;
+}
+
+interface HistoryUserRow {
+  user_id: string;
+  created_at: Date;
+  removed_at: Date | null;
+}
+
+/**
+ * Schema migrations, applied in order; each one runs exactly once per database
+ */
+const MIGRATIONS: Array<(prefix: string) => string> = [
+  (prefix: string): string => `
+    CREATE TABLE ${prefix}_users (
+      user_id TEXT PRIMARY KEY,
+      created_at TIMESTAMPTZ NOT NULL,
+      position BIGSERIAL NOT NULL
+    );
+    CREATE TABLE ${prefix}_referrals (
+      referrer TEXT NOT NULL REFERENCES ${prefix}_users (user_id),
+      candidate TEXT NOT NULL REFERENCES ${prefix}_users (user_id),
+      created_at TIMESTAMPTZ NOT NULL,
+      position BIGSERIAL NOT NULL,
+      PRIMARY KEY (referrer, candidate)
+    );
+    CREATE INDEX ${prefix}_referrals_candidate ON ${prefix}_referrals (candidate);
+    CREATE TABLE ${prefix}_removed_users (
+      position BIGSERIAL PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL,
+      removed_at TIMESTAMPTZ NOT NULL
+    );
+    CREATE TABLE ${prefix}_removed_referrals (
+      position BIGSERIAL PRIMARY KEY,
+      referrer TEXT NOT NULL,
+      candidate TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL,
+      removed_at TIMESTAMPTZ NOT NULL
+    );
+  `,
+  // Whether every user has at most one referrer; filled in by migrate()
+  (prefix: string): string => `
+    CREATE TABLE ${prefix}_schema_mode (
+      single_referrer BOOLEAN NOT NULL
+    );
+  `
+];
+
+// SQLSTATE codes; the first two mean a retry may succeed
+const SERIALIZATION_FAILURE = '40001';
+const DEADLOCK_DETECTED = '40P01';
+const UNIQUE_VIOLATION = '23505';
+
+export class PostgresStorage implements IReferralStorage {
+  private pool: pg.Pool | null = null;
+  // The client of the transaction running in the current async context
+  private readonly transactionClient = new AsyncLocalStorage<pg.PoolClient>();
+  private readonly options: PostgresStorageOptions;
+  private readonly prefix: string;
+
+  constructor(options: PostgresStorageOptions) {
+    if (!options.connectionString) {
+      throw new Error('PostgreSQL storage requires a connectionString');
+    }
+
+    const prefix = options.tableName ?? 'referral';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(prefix)) {
+      throw new Error(`Invalid table name: ${prefix}`);
+    }
+
+    this.options = options;
+    this.prefix = prefix;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.pool) {
+      return;
+    }
+
+    const { default: { Pool } } = await import('pg').catch((error: unknown) => {
+      throw missingDriver('pg', 'PostgreSQL', error);
+    });
+    const { connectionString, maxConnections, timeout } = this.options;
+    this.pool = new Pool({
+      connectionString,
+      max: maxConnections ?? 10,
+      ...(timeout !== undefined && { connectionTimeoutMillis: timeout, query_timeout: timeout })
+    });
+    try {
+      await this.migrate();
+    } catch (error) {
+      // Leave the storage uninitialized so a corrected retry migrates again
+      await this.destroy();
+      throw error;
+    }
+  }
+
+  /**
+   * Close the connection pool; the data stays in the database
+   */
+  async destroy(): Promise<void> {
+    const pool = this.pool;
+    this.pool = null;
+    await pool?.end();
+  }
+
+  /**
+   * Bring the schema up to date
+   *
+   * Safe to run from several processes at once: an advisory lock makes them
+   * take turns, and each migration is recorded once applied.
+   */
+  async migrate(): Promise<void> {
+    const client = await this.requirePool().connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`${this.prefix}_schema`]);
+      await client.query(`CREATE TABLE IF NOT EXISTS ${this.prefix}_schema_version (version INTEGER PRIMARY KEY)`);
+
+      const { rows } = await client.query<{ version: number | null }>(
+        `SELECT MAX(version) AS version FROM ${this.prefix}_schema_version`
+      );
+      const current = rows[0]?.version ?? 0;
+      for (let version = current + 1; version <= MIGRATIONS.length; version++) {
+        const migration = MIGRATIONS[version - 1];
+        if (migration) {
+          await client.query(migration(this.prefix));
+          await client.query(`INSERT INTO ${this.prefix}_schema_version (version) VALUES ($1)`, [version]);
+        }
+      }
+
+      await this.applySchemaMode(client);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async addUser(userId: UserId, createdAt: Date = new Date()): Promise<void> {
+    await this.query(
+      `INSERT INTO ${this.prefix}_users (user_id, created_at) VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+      [userId, createdAt]
+    );
+  }
+
+  async getUser(userId: UserId): Promise<UserNode | null> {
+    const rows = await this.query<UserRow>(`${this.selectUsers()} WHERE u.user_id = $1`, [userId]);
+    return rows[0] ? toUserNode(rows[0]) : null;
+  }
+
+  async userExists(userId: UserId): Promise<boolean> {
+    const rows = await this.query(`SELECT 1 FROM ${this.prefix}_users WHERE user_id = $1`, [userId]);
+    return rows.length > 0;
+  }
+
+  /**
+   * Add a referral relationship
+   *
+   * Runs in a serializable transaction. Unless cycles are allowed, a referral
+   * that would close a cycle is rejected with CYCLE_DETECTED; unless multiple
+   * referrers are allowed, a candidate that already has another referrer is
+   * rejected with MULTIPLE_REFERRERS, even when the other referral was made
+   * by another process.
+   */
+  async addReferral(referrer: UserId, candidate: UserId, createdAt: Date = new Date()): Promise<void> {
+    try {
+      await this.transaction(async () => {
+        if (!this.options.allowCycles && await this.wouldCreateCycle(referrer, candidate)) {
+          throw new ReferralError(
+            ReferralErrorType.CYCLE_DETECTED,
+            'Referral would create a cycle',
+            { referrer, candidate }
+          );
+        }
+
+        await this.addUser(referrer, createdAt);
+        await this.addUser(candidate, createdAt);
+        await this.query(
+          `INSERT INTO ${this.prefix}_referrals (referrer, candidate, created_at) VALUES ($1, $2, $3)
+           ON CONFLICT (referrer, candidate) DO NOTHING`,
+          [referrer, candidate, createdAt]
+        );
+      });
+    } catch (error) {
+      if (errorCode(error) === UNIQUE_VIOLATION) {
+        throw new ReferralError(
+          ReferralErrorType.MULTIPLE_REFERRERS,
+          'User already has a referrer',
+          { referrer, candidate }
+        );
+      }
+      throw error;
+    }
+  }
+
+  async getAllUsers(): Promise<UserNode[]> {
+    const rows = await this.query<UserRow>(`${this.selectUsers()} ORDER BY u.position`);
+    return rows.map(toUserNode);
+  }
+
+  async getDirectReferrals(userId: UserId): Promise<UserId[]> {
+    const rows = await this.query<{ candidate: string }>(
+      `SELECT candidate FROM ${this.prefix}_referrals WHERE referrer = $1 ORDER BY position`,
+      [userId]
+    );
+    return rows.map(row => row.candidate);
+  }
+
+  async getAllReferrals(userId: UserId): Promise<UserId[]> {
+    const childrenOf = await this.descendantReferrals(userId);
+    return Array.from(walkDescendants(userId, childrenOf, { order: 'dfs' }), entry => entry.userId);
+  }
+
+  async *traverseReferrals(userId: UserId, options: TraversalOptions = {}): AsyncIterable<TraversalEntry> {
+    const childrenOf = await this.descendantReferrals(userId);
+    yield* walkDescendants(userId, childrenOf, options);
+  }
+
+  async getParent(userId: UserId): Promise<UserId | null> {
+    const [parent] = await this.getParents(userId);
+    return parent ?? null;
+  }
+
+  async getParents(userId: UserId): Promise<UserId[]> {
+    const rows = await this.query<{ referrer: string }>(
+      `SELECT referrer FROM ${this.prefix}_referrals WHERE candidate = $1 ORDER BY position`,
+      [userId]
+    );
+    return rows.map(row => row.referrer);
+  }
+
+  async getAncestors(userId: UserId): Promise<UserId[]> {
+    const parentsOf = await this.ancestorReferrals([userId]);
+    return Array.from(walkAncestors(userId, parentsOf), ancestor => ancestor.userId);
+  }
+
+  async getDepth(userId: UserId): Promise<number> {
+    return nearestRoot(userId, await this.ancestorReferrals([userId])).distance;
+  }
+
+  async getRoot(userId: UserId): Promise<UserId> {
+    return nearestRoot(userId, await this.ancestorReferrals([userId])).userId;
+  }
+
+  async getLowestCommonAncestor(a: UserId, b: UserId): Promise<UserId | null> {
+    return lowestCommonAncestor(a, b, await this.ancestorReferrals([a, b]));
+  }
+
+  async getReferralPath(from: UserId, to: UserId): Promise<UserId[] | null> {
+    return referralPath(from, to, await this.ancestorReferrals([to]));
+  }
+
+  async getReach(userId: UserId): Promise<number> {
+    const rows = await this.query<{ reach: number }>(
+      `WITH RECURSIVE descendants (user_id) AS (
+         SELECT candidate FROM ${this.prefix}_referrals WHERE referrer = $1
+         UNION
+         SELECT r.candidate FROM ${this.prefix}_referrals r JOIN descendants d ON r.referrer = d.user_id
+       )
+       SELECT COUNT(*)::int AS reach FROM descendants WHERE user_id <> $1`,
+      [userId]
+    );
+    return rows[0]?.reach ?? 0;
+  }
+
+  async getReachScores(): Promise<Map<UserId, number>> {
+    const users = await this.usersById();
+    const index = new ReachIndex(() => users);
+    index.rebuild();
+    return index.scores();
+  }
+
+  async getUserCount(): Promise<number> {
+    const rows = await this.query<{ count: number }>(`SELECT COUNT(*)::int AS count FROM ${this.prefix}_users`);
+    return rows[0]?.count ?? 0;
+  }
+
+  async getNetworkStats(): Promise<NetworkStats> {
+    const users = await this.usersById();
+    const totalUsers = users.size;
+    let totalReferrals = 0;
+    for (const user of users.values()) {
+      totalReferrals += user.directReferrals.length;
+    }
+
+    const condensation = condense(users.keys(), userId => users.get(userId)?.directReferrals ?? []);
+
+    return {
+      totalUsers,
+      totalReferrals,
+      maxDepth: longestComponentChain(condensation),
+      averageReferralsPerUser: totalUsers > 0 ? totalReferrals / totalUsers : 0
+    };
+  }
+
+  async isAncestor(ancestor: UserId, userId: UserId): Promise<boolean> {
+    for (const entry of walkAncestors(userId, await this.ancestorReferrals([userId]))) {
+      if (entry.userId === ancestor) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async getAllReferralRelationships(): Promise<ReferralRelationship[]> {
+    const rows = await this.query<ReferralRow>(
+      `SELECT referrer, candidate, created_at FROM ${this.prefix}_referrals ORDER BY position`
+    );
+    return rows.map(toReferralEntry);
+  }
+
+  async getReferralRelationships(referrer: UserId): Promise<ReferralRelationship[]> {
+    const rows = await this.query<ReferralRow>(
+      `SELECT referrer, candidate, created_at FROM ${this.prefix}_referrals WHERE referrer = $1 ORDER BY position`,
+      [referrer]
+    );
+    return rows.map(toReferralEntry);
+  }
+
+  async removeUser(userId: UserId, removedAt: Date = new Date()): Promise<void> {
+    await this.transaction(async () => {
+      // Referrals to the user go into the history before referrals by it
+      await this.query(
+        `WITH removed AS (
+           DELETE FROM ${this.prefix}_referrals WHERE referrer = $1 OR candidate = $1 RETURNING *
+         )
+         INSERT INTO ${this.prefix}_removed_referrals (referrer, candidate, created_at, removed_at)
+         SELECT referrer, candidate, created_at, $2 FROM removed ORDER BY candidate = $1 DESC, position`,
+        [userId, removedAt]
+      );
+      await this.query(
+        `WITH removed AS (
+           DELETE FROM ${this.prefix}_users WHERE user_id = $1 RETURNING user_id, created_at
+         )
+         INSERT INTO ${this.prefix}_removed_users (user_id, created_at, removed_at)
+         SELECT user_id, created_at, $2 FROM removed`,
+        [userId, removedAt]
+      );
+    });
+  }
+
+  async removeReferral(referrer: UserId, candidate: UserId, removedAt: Date = new Date()): Promise<void> {
+    await this.query(
+      `WITH removed AS (
+         DELETE FROM ${this.prefix}_referrals WHERE referrer = $1 AND candidate = $2 RETURNING *
+       )
+       INSERT INTO ${this.prefix}_removed_referrals (referrer, candidate, created_at, removed_at)
+       SELECT referrer, candidate, created_at, $3 FROM removed`,
+      [referrer, candidate, removedAt]
+    );
+  }
+
+  async getUserHistory(): Promise<UserHistoryEntry[]> {
+    const rows = await this.query<HistoryUserRow>(
+      `SELECT user_id, created_at, removed_at FROM (
+         SELECT user_id, created_at, removed_at, 0 AS part, position FROM ${this.prefix}_removed_users
+         UNION ALL
+         SELECT user_id, created_at, NULL, 1, position FROM ${this.prefix}_users
+       ) history
+       ORDER BY part, position`
+    );
+    return rows.map(row => ({
+      userId: row.user_id,
+      createdAt: row.created_at,
+      ...(row.removed_at !== null && { removedAt: row.removed_at })
+    }));
+  }
+
+  async getReferralHistory(): Promise<ReferralHistoryEntry[]> {
+    const rows = await this.query<ReferralRow>(
+      `SELECT referrer, candidate, created_at, removed_at FROM (
+         SELECT referrer, candidate, created_at, removed_at, 0 AS part, position FROM ${this.prefix}_removed_referrals
+         UNION ALL
+         SELECT referrer, candidate, created_at, NULL, 1, position FROM ${this.prefix}_referrals
+       ) history
+       ORDER BY part, position`
+    );
+    return rows.map(toReferralEntry);
+  }
+
+  /**
+   * Run an operation in a serializable transaction
+   *
+   * Storage calls made by the operation join the transaction. If the
+   * transaction fails to serialize, the operation is run again from the
+   * start, up to `retryAttempts` times.
+   */
+  async runInTransaction<T>(operation: () => Promise<T>): Promise<T> {
+    return this.transaction(operation);
+  }
+
+  async clear(): Promise<void> {
+    await this.query(
+      `TRUNCATE ${this.prefix}_removed_referrals, ${this.prefix}_removed_users,
+         ${this.prefix}_referrals, ${this.prefix}_users RESTART IDENTITY`
+    );
+  }
+
+  /**
+   * Check whether referrer → candidate would close a cycle, inside the
+   * addReferral transaction so concurrent writers are seen
+   */
+  private async wouldCreateCycle(referrer: UserId, candidate: UserId): Promise<boolean> {
+    if (referrer === candidate) {
+      return true;
+    }
+
+    const rows = await this.query(
+      `WITH RECURSIVE descendants (user_id) AS (
+         SELECT candidate FROM ${this.prefix}_referrals WHERE referrer = $1
+         UNION
+         SELECT r.candidate FROM ${this.prefix}_referrals r JOIN descendants d ON r.referrer = d.user_id
+       )
+       SELECT 1 FROM descendants WHERE user_id = $2 LIMIT 1`,
+      [candidate, referrer]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Record the referrer rule with a new schema, or check it against the recorded one
+   *
+   * Schemas migrated before the rule was recorded keep the rule their unique
+   * index says they were created with.
+   */
+  private async applySchemaMode(client: pg.PoolClient): Promise<void> {
+    const singleReferrer = !this.options.allowMultipleReferrers;
+    const { rows } = await client.query<{ single_referrer: boolean }>(
+      `SELECT single_referrer FROM ${this.prefix}_schema_mode`
+    );
+
+    let recorded = rows[0]?.single_referrer;
+    if (recorded === undefined) {
+      const { rows: indexRows } = await client.query<{ index: string | null }>(
+        'SELECT to_regclass($1)::text AS index',
+        [`${this.prefix}_single_referrer`]
+      );
+      recorded = indexRows[0]?.index ? true : singleReferrer;
+      if (recorded) {
+        await client.query(
+          `CREATE UNIQUE INDEX IF NOT EXISTS ${this.prefix}_single_referrer ON ${this.prefix}_referrals (candidate)`
+        );
+      }
+      await client.query(`INSERT INTO ${this.prefix}_schema_mode (single_referrer) VALUES ($1)`, [recorded]);
+    }
+
+    if (recorded !== singleReferrer) {
+      throw new Error(
+        `Tables ${this.prefix}_* were created ${recorded ? 'without' : 'with'} multiple referrers; ` +
+        `allowMultipleReferrers must be ${!recorded}`
+      );
+    }
+  }
+
+  private async transaction<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.transactionClient.getStore()) {
+      return operation();
+    }
+
+    const retryAttempts = this.options.retryAttempts ?? 3;
+    for (let attempt = 0; ; attempt++) {
+      const client = await this.requirePool().connect();
+      try {
+        await client.query('BEGIN ISOLATION LEVEL SERIALIZABLE');
+        const result = await this.transactionClient.run(client, operation);
+        await client.query('COMMIT');
+        return result;
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        const code = errorCode(error);
+        if (attempt >= retryAttempts || (code !== SERIALIZATION_FAILURE && code !== DEADLOCK_DETECTED)) {
+          throw error;
+        }
+      } finally {
+        client.release();
+      }
+
+      // Back off a little longer after every conflict
+      await new Promise(resolve => setTimeout(resolve, 2 ** attempt * 10 * (1 + Math.random())));
+    }
+  }
+
+  private async query<R extends pg.QueryResultRow>(text: string, values: unknown[] = []): Promise<R[]> {
+    const client = this.transactionClient.getStore() ?? this.requirePool();
+    const result = await client.query<R>(text, values);
+    return result.rows;
+  }
+
+  private requirePool(): pg.Pool {
+    if (!this.pool) {
+      throw new Error('PostgreSQL storage is not initialized');
+    }
+    return this.pool;
+  }
+
+  private selectUsers(): string {
+    return `SELECT u.user_id, u.created_at,
+      ARRAY(SELECT r.candidate FROM ${this.prefix}_referrals r WHERE r.referrer = u.user_id ORDER BY r.position) AS direct_referrals,
+      ARRAY(SELECT r.referrer FROM ${this.prefix}_referrals r WHERE r.candidate = u.user_id ORDER BY r.position) AS parents
+      FROM ${this.prefix}_users u`;
+  }
+
+  private async usersById(): Promise<Map<UserId, UserNode>> {
+    const users = await this.getAllUsers();
+    return new Map(users.map(user => [user.userId, user]));
+  }
+
+  /**
+   * Load the referrals below a user and look them up by referrer
+   */
+  private async descendantReferrals(userId: UserId): Promise<(userId: UserId) => UserId[]> {
+    const rows = await this.query<{ referrer: string; candidate: string }>(
+      `WITH RECURSIVE reachable (user_id) AS (
+         SELECT $1::text
+         UNION
+         SELECT r.candidate FROM ${this.prefix}_referrals r JOIN reachable d ON r.referrer = d.user_id
+       )
+       SELECT r.referrer, r.candidate FROM ${this.prefix}_referrals r
+       JOIN reachable d ON r.referrer = d.user_id
+       ORDER BY r.position`,
+      [userId]
+    );
+    return groupBy(rows, row => row.referrer, row => row.candidate);
+  }
+
+  /**
+   * Load the referrals above some users and look them up by candidate
+   */
+  private async ancestorReferrals(userIds: UserId[]): Promise<(userId: UserId) => UserId[]> {
+    const rows = await this.query<{ referrer: string; candidate: string }>(
+      `WITH RECURSIVE lineage (user_id) AS (
+         SELECT unnest($1::text[])
+         UNION
+         SELECT r.referrer FROM ${this.prefix}_referrals r JOIN lineage l ON r.candidate = l.user_id
+       )
+       SELECT r.referrer, r.candidate FROM ${this.prefix}_referrals r
+       JOIN lineage l ON r.candidate = l.user_id
+       ORDER BY r.position`,
+      [userIds]
+    );
+    return groupBy(rows, row => row.candidate, row => row.referrer);
+  }
+}
+
+function toUserNode(row: UserRow): UserNode {
+  const [parent] = row.parents;
+  return {
+    userId: row.user_id,
+    directReferrals: row.direct_referrals,
+    parents: row.parents,
+    createdAt: row.created_at,
+    ...(parent !== undefined && { parent })
+  };
+}
+
+function toReferralEntry(row: ReferralRow): ReferralHistoryEntry {
+  return {
+    referrer: row.referrer,
+    candidate: row.candidate,
+    createdAt: row.created_at,
+    ...(row.removed_at != null && { removedAt: row.removed_at })
+  };
+}
+
+/**
+ * Build a lookup from rows, keeping the order of the rows within each key
+ */
+function groupBy<R>(rows: R[], key: (row: R) => UserId, value: (row: R) => UserId): (userId: UserId) => UserId[] {
+  const groups = new Map<UserId, UserId[]>();
+  for (const row of rows) {
+    const group = groups.get(key(row));
+    if (group) {
+      group.push(value(row));
+    } else {
+      groups.set(key(row), [value(row)]);
+    }
+  }
+  return userId => groups.get(userId) ?? [];
+}
+
+function errorCode(error: unknown): unknown {
+  return typeof error === 'object' && error !== null ? (error as { code?: unknown }).code : undefined;
+}
@@ -0,0 +1,277 @@
+/**
+ * Reach index for referral storage backends
+ *
+ * Keeps the number of distinct descendants of every user so reach queries are
+ * O(1) instead of a fresh traversal per user.
+ *
+ * A user is never counted as its own descendant, even when it can reach
+ * itself through a cycle.
+ *
+ * While every user has at most one referrer the index is maintained
+ * incrementally in O(depth) per change. While any user has several
+ * referrers, or when a referral closes a cycle, summing child counts would
+ * count some descendants more than once, so every change marks the index
+ * stale and it is rebuilt on the next read.
+ */
+
+import { condense } from '../components.js';
+import { Condensation, UserId, UserNode } from '../types/index.js';
+
+/**
+ * Saved state of a ReachIndex, used to roll back transactions
+ */
+export interface ReachIndexSnapshot {
+  reach: Map<UserId, number>;
+  stale: boolean;
+  sharedUsers: Set<UserId>;
+}
+
+export class ReachIndex {
+  private reach: Map<UserId, number> = new Map();
+  private stale = false;
+  // Users with more than one referrer; the index is only incremental without them
+  private sharedUsers: Set<UserId> = new Set();
+  private readonly getUsers: () => ReadonlyMap<UserId, UserNode>;
+
+  /**
+   * @param getUsers - Returns the current user nodes of the storage
+   */
+  constructor(getUsers: () => ReadonlyMap<UserId, UserNode>) {
+    this.getUsers = getUsers;
+  }
+
+  /**
+   * Recompute every user's reach from the current user nodes
+   *
+   * Works on the condensation, where users that reach each other share one
+   * component. Components are finished in reverse topological order, so each
+   * one sums the reach of the components below it unless some descendant can
+   * be reached along more than one path; those count distinct users with a
+   * traversal of their own.
+   */
+  rebuild(): void {
+    const nodes = this.getUsers();
+    const condensation = condense(nodes.keys(), userId => nodes.get(userId)?.directReferrals ?? []);
+    const { components, successors } = condensation;
+    const overlapping = componentsAboveSharedDescendants(successors);
+
+    // Users below each component, not counting the component's own members
+    const below: number[] = [];
+    successors.forEach((next, componentIndex) => {
+      if (overlapping.has(componentIndex)) {
+        below[componentIndex] = countUsersBelow(condensation, componentIndex);
+        return;
+      }
+      let total = 0;
+      for (const successor of next) {
+        total += (below[successor] ?? 0) + (components[successor]?.length ?? 0);
+      }
+      below[componentIndex] = total;
+    });
+
+    this.reach.clear();
+    this.stale = false;
+    this.sharedUsers.clear();
+    for (const [userId, node] of nodes) {
+      if (node.parents.length > 1) {
+        this.sharedUsers.add(userId);
+      }
+    }
+    components.forEach((component, componentIndex) => {
+      // Every other member of a component is also a descendant
+      const reach = (below[componentIndex] ?? 0) + component.length - 1;
+      for (const userId of component) {
+        this.reach.set(userId, reach);
+      }
+    });
+  }
+
+  /**
+   * Get the number of distinct descendants of a user (0 for unknown users)
+   */
+  get(userId: UserId): number {
+    this.refresh();
+    return this.reach.get(userId) ?? 0;
+  }
+
+  /**
+   * Get a copy of every user's reach
+   */
+  scores(): Map<UserId, number> {
+    this.refresh();
+    return new Map(this.reach);
+  }
+
+  /**
+   * Register a user with no descendants
+   */
+  addUser(userId: UserId): void {
+    if (!this.reach.has(userId)) {
+      this.reach.set(userId, 0);
+    }
+  }
+
+  /**
+   * Forget a user; callers detach it from its referrers first
+   */
+  removeUser(userId: UserId): void {
+    this.reach.delete(userId);
+    this.sharedUsers.delete(userId);
+  }
+
+  /**
+   * Account for `child` being added under `parent`; call after the
+   * referral has been recorded on both user nodes
+   */
+  attach(parent: UserId, child: UserId): void {
+    this.trackReferrers(child, 0);
+    this.adjustAncestors(parent, child, 1);
+  }
+
+  /**
+   * Account for `child` being removed from `parent`; call before the
+   * referral is removed from either user node
+   */
+  detach(parent: UserId, child: UserId): void {
+    this.adjustAncestors(parent, child, -1);
+    this.trackReferrers(child, -1);
+  }
+
+  /**
+   * Save the current state, e.g. before a transaction
+   */
+  snapshot(): ReachIndexSnapshot {
+    return { reach: new Map(this.reach), stale: this.stale, sharedUsers: new Set(this.sharedUsers) };
+  }
+
+  /**
+   * Return to a state saved by snapshot()
+   */
+  restore(snapshot: ReachIndexSnapshot): void {
+    this.reach = new Map(snapshot.reach);
+    this.stale = snapshot.stale;
+    this.sharedUsers = new Set(snapshot.sharedUsers);
+  }
+
+  clear(): void {
+    this.reach.clear();
+    this.stale = false;
+    this.sharedUsers.clear();
+  }
+
+  private refresh(): void {
+    if (this.stale) {
+      this.rebuild();
+    }
+  }
+
+  /**
+   * Record whether `child` has several referrers once a referral to it is
+   * added (`change` 0, called after recording it) or removed (`change` -1,
+   * called before)
+   */
+  private trackReferrers(child: UserId, change: 0 | -1): void {
+    const referrers = (this.getUsers().get(child)?.parents.length ?? 0) + change;
+    if (referrers > 1) {
+      this.sharedUsers.add(child);
+    } else {
+      this.sharedUsers.delete(child);
+    }
+  }
+
+  /**
+   * Add or remove the subtree under `child` from `parent` and every user
+   * above it, O(depth); falls back to a rebuild while any user has several
+   * referrers, since the subtree may share descendants with the users above,
+   * or when the referral is part of a cycle
+   */
+  private adjustAncestors(parent: UserId, child: UserId, sign: 1 | -1): void {
+    if (this.stale) {
+      return;
+    }
+
+    if (this.sharedUsers.size > 0) {
+      this.stale = true;
+      return;
+    }
+
+    const nodes = this.getUsers();
+    const delta = sign * (this.get(child) + 1);
+    const visited = new Set<UserId>();
+    let current: UserId | undefined = parent;
+
+    // The visited set stops the walk if the parent chain loops
+    while (current !== undefined && !visited.has(current)) {
+      const parents: UserId[] = nodes.get(current)?.parents ?? [];
+      if (current === child) {
+        this.stale = true;
+        return;
+      }
+      visited.add(current);
+      this.reach.set(current, (this.reach.get(current) ?? 0) + delta);
+      current = parents[0];
+    }
+  }
+}
+
+/**
+ * Find every component that can reach a component with referrals from
+ * several components; all other components only have tree-shaped descendants
+ */
+function componentsAboveSharedDescendants(successors: number[][]): Set<number> {
+  const predecessors: number[][] = successors.map(() => []);
+  successors.forEach((next, componentIndex) => {
+    for (const successor of next) {
+      predecessors[successor]?.push(componentIndex);
+    }
+  });
+
+  const result = new Set<number>();
+  const queue: number[] = [];
+  for (const sources of predecessors) {
+    if (sources.length > 1) {
+      for (const source of sources) {
+        if (!result.has(source)) {
+          result.add(source);
+          queue.push(source);
+        }
+      }
+    }
+  }
+
+  for (let head = 0; head < queue.length; head++) {
+    for (const source of predecessors[queue[head] ?? -1] ?? []) {
+      if (!result.has(source)) {
+        result.add(source);
+        queue.push(source);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Count the distinct users in the components reachable below a component
+ */
+function countUsersBelow(condensation: Condensation, componentIndex: number): number {
+  const seen = new Set<number>([componentIndex]);
+  const stack: number[] = [componentIndex];
+  let count = 0;
+
+  while (stack.length > 0) {
+    const current = stack.pop();
+    if (current === undefined) {
+      break;
+    }
+    for (const successor of condensation.successors[current] ?? []) {
+      if (!seen.has(successor)) {
+        seen.add(successor);
+        stack.push(successor);
+        count += condensation.components[successor]?.length ?? 0;
+      }
+    }
+  }
+
+  return count;
+}
@@ -0,0 +1,970 @@
+/**
+ * Redis implementation of IReferralStorage
+ *
+ * A shared, low-latency store for services that run on several hosts. Every
+ * key lives under one hash-tagged prefix, `{referral}` by default:
+ * - `users`: sorted set of user IDs, scored in the order they joined
+ * - `created`: hash of user ID to join time
+ * - `parent`: hash of user ID to first referrer
+ * - `children:<id>` / `parents:<id>`: sorted sets of a user's referrals and
+ *   referrers, scored in the order the referrals were made
+ * - `referredAt:<id>`: hash of each referral a user made to its time
+ * - `removedUsers` / `removedReferrals`: lists of removed entries
+ * - `lock` / `undo:<token>`: the running transaction's token and undo log
+ *
+ * Every write is a Lua script, so addReferral's referrer and cycle checks and
+ * the write itself happen atomically on the server, as does removeUser with
+ * all of its referrals. Descendant and ancestor queries collect the relevant
+ * referrals in one script and then run the same walks as InMemoryStorage.
+ *
+ * Transactions hold a refreshed lock on the prefix, so writes from other
+ * clients wait until it is released, and log how to undo each write so a
+ * failed operation can be rolled back; see runInTransaction for the
+ * isolation this gives.
+ *
+ * ioredis is an optional peer dependency, imported by initialize() unless a
+ * client is passed in.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash, randomUUID } from 'node:crypto';
+import type { Redis } from 'ioredis';
+import { IReferralStorage } from './interfaces.js';
+import { missingDriver } from './drivers.js';
+import { ReachIndex } from './ReachIndex.js';
+import { condense, longestComponentChain } from '../components.js';
+import {
+  walkDescendants,
+  walkAncestors,
+  nearestRoot,
+  lowestCommonAncestor,
+  referralPath
+} from './walks.js';
+import {
+  UserId,
+  UserNode,
+  ReferralRelationship,
+  NetworkStats,
+  TraversalOptions,
+  TraversalEntry,
+  UserHistoryEntry,
+  ReferralHistoryEntry,
+  ReferralError,
+  ReferralErrorType
+} from '../types/index.js';
+
+/**
+ * Options for a RedisStorage
+ */
+export interface RedisStorageOptions {
+  /** Redis URL, e.g. redis://localhost:6379/0 (default: a local server) */
+  connectionString?: string;
+  /** An existing client to use instead of connecting; it is not closed by destroy() */
+  client?: Redis;
+  /** Prefix of every key the storage uses (default: 'referral') */
+  keyPrefix?: string;
+  /** Milliseconds to wait for a command, a connection or a transaction lock (default: 10000) */
+  timeout?: number;
+  /** Times to retry a command after the connection drops (default: 3) */
+  retryAttempts?: number;
+  /** Allow a user to have several referrers (default: false) */
+  allowMultipleReferrers?: boolean;
+  /** Allow referrals that close a cycle (default: false) */
+  allowCycles?: boolean;
+}
+
+interface LuaScript {
+  source: string;
+  sha: string;
+  /** Kinds of the namespace keys the script declares in KEYS */
+  keys: string[];
+}
+
+const DEFAULT_TIMEOUT = 10000;
+// How long the transaction lock and undo log outlive their last refresh; a
+// running transaction refreshes them every third of this
+const LOCK_TTL = 30000;
+
+/**
+ * Helpers shared by every script. ARGV[1] is the key prefix and ARGV[2] the
+ * token of the transaction the call belongs to, if any.
+ *
+ * Writes go through the helpers below, which append the steps that undo
+ * them to the transaction's undo log. Each entry is four list items: an
+ * operation, a key and two operands.
+ */
+const PRELUDE = `
+local p = ARGV[1]
+local token = ARGV[2]
+
+local function k(kind, id)
+  if id then
+    return p .. ':' .. kind .. ':' .. id
+  end
+  return p .. ':' .. kind
+end
+
+local undo = nil
+if token ~= '' then
+  undo = k('undo', token)
+end
+
+-- Error reply for a write that may not run now, or nil if it may
+local function lockError()
+  local holder = redis.call('GET', k('lock'))
+  if not undo then
+    if holder then
+      return redis.error_reply('LOCKED The namespace is locked by a transaction')
+    end
+  elseif holder ~= token then
+    return redis.error_reply('LOCK_LOST The transaction lock has expired')
+  end
+  return nil
+end
+
+local function logUndo(operation, key, a, b)
+  if undo then
+    redis.call('RPUSH', undo, operation, key, a or '', b or '')
+    redis.call('PEXPIRE', undo, ${LOCK_TTL})
+  end
+end
+
+local function zadd(key, score, member)
+  local old = redis.call('ZSCORE', key, member)
+  if old then
+    logUndo('zadd', key, member, old)
+  else
+    logUndo('zrem', key, member)
+  end
+  redis.call('ZADD', key, score, member)
+end
+
+local function zrem(key, member)
+  local old = redis.call('ZSCORE', key, member)
+  if old then
+    logUndo('zadd', key, member, old)
+    redis.call('ZREM', key, member)
+  end
+end
+
+local function hset(key, field, value)
+  local old = redis.call('HGET', key, field)
+  if old then
+    logUndo('hset', key, field, old)
+  else
+    logUndo('hdel', key, field)
+  end
+  redis.call('HSET', key, field, value)
+end
+
+local function hdel(key, field)
+  local old = redis.call('HGET', key, field)
+  if old then
+    logUndo('hset', key, field, old)
+    redis.call('HDEL', key, field)
+  end
+end
+
+local function rpush(key, ...)
+  logUndo('trim', key, redis.call('LLEN', key))
+  redis.call('RPUSH', key, ...)
+end
+
+local function incr(key)
+  local old = redis.call('GET', key)
+  if old then
+    logUndo('set', key, old)
+  else
+    logUndo('del', key)
+  end
+  return redis.call('INCR', key)
+end
+
+-- Delete a key; inside a transaction its contents go into the undo log
+local function del(key)
+  if undo then
+    local keyType = redis.call('TYPE', key)
+    if type(keyType) == 'table' then
+      keyType = keyType['ok']
+    end
+
+    if keyType == 'zset' then
+      local items = redis.call('ZRANGE', key, 0, -1, 'WITHSCORES')
+      for i = 1, #items, 2 do
+        logUndo('zadd', key, items[i], items[i + 1])
+      end
+    elseif keyType == 'hash' then
+      local items = redis.call('HGETALL', key)
+      for i = 1, #items, 2 do
+        logUndo('hset', key, items[i], items[i + 1])
+      end
+    elseif keyType == 'list' then
+      -- The log is replayed backwards, so the last item goes in first
+      local items = redis.call('LRANGE', key, 0, -1)
+      for i = #items, 1, -1 do
+        logUndo('rpush', key, items[i])
+      end
+    elseif keyType == 'string' then
+      logUndo('set', key, redis.call('GET', key))
+    end
+  end
+  redis.call('DEL', key)
+end
+
+local function ensureUser(userId, createdAt)
+  if redis.call('ZSCORE', k('users'), userId) then
+    return
+  end
+  zadd(k('users'), incr(k('seq')), userId)
+  hset(k('created'), userId, createdAt)
+end
+
+local function unlink(referrer, candidate, removedAt)
+  if not redis.call('ZSCORE', k('parents', candidate), referrer) then
+    return
+  end
+  local createdAt = redis.call('HGET', k('referredAt', referrer), candidate)
+  rpush(k('removedReferrals'), referrer, candidate, createdAt, removedAt)
+  zrem(k('children', referrer), candidate)
+  zrem(k('parents', candidate), referrer)
+  hdel(k('referredAt', referrer), candidate)
+
+  -- The next remaining referrer becomes the parent
+  local nextParent = redis.call('ZRANGE', k('parents', candidate), 0, 0)[1]
+  if nextParent then
+    hset(k('parent'), candidate, nextParent)
+  else
+    hdel(k('parent'), candidate)
+  end
+end
+
+-- Referrals made by the given users, oldest first, as {referrer, candidate, createdAt}
+local function relationships(referrers)
+  local entries = {}
+  for _, referrer in ipairs(referrers) do
+    local children = redis.call('ZRANGE', k('children', referrer), 0, -1, 'WITHSCORES')
+    for i = 1, #children, 2 do
+      local createdAt = redis.call('HGET', k('referredAt', referrer), children[i])
+      entries[#entries + 1] = { tonumber(children[i + 1]), referrer, children[i], createdAt }
+    end
+  end
+  table.sort(entries, function(a, b) return a[1] < b[1] end)
+
+  local result = {}
+  for i, entry in ipairs(entries) do
+    result[i] = { entry[2], entry[3], entry[4] }
+  end
+  return result
+end
+
+-- Suffixes of every key in the namespace except the lock and undo logs
+local function namespaceKeys()
+  local suffixes = { 'users', 'created', 'parent', 'seq', 'removedUsers', 'removedReferrals' }
+  for _, userId in ipairs(redis.call('ZRANGE', k('users'), 0, -1)) do
+    suffixes[#suffixes + 1] = 'children:' .. userId
+    suffixes[#suffixes + 1] = 'parents:' .. userId
+    suffixes[#suffixes + 1] = 'referredAt:' .. userId
+  end
+  return suffixes
+end
+`;
+
+function defineScript(keys: string[], body: string): LuaScript {
+  const source = `${PRELUDE}\n${body}`;
+  return { source, sha: createHash('sha1').update(source).digest('hex'), keys };
+}
+
+const CHECK_LOCK = `local lockFailure = lockError() if lockFailure then return lockFailure end`;
+
+// Keys every write declares; 'undo' is only declared inside a transaction
+const WRITE_KEYS = ['lock', 'undo'];
+
+const SCRIPTS = {
+  // ARGV[3] user, ARGV[4] createdAt
+  addUser: defineScript([...WRITE_KEYS, 'users', 'seq', 'created'], `
+    ${CHECK_LOCK}
+    ensureUser(ARGV[3], ARGV[4])
+    return 1
+  `),
+
+  // ARGV[3] referrer, ARGV[4] candidate, ARGV[5] createdAt,
+  // ARGV[6] '1' to allow multiple referrers, ARGV[7] '1' to allow cycles
+  addReferral: defineScript([...WRITE_KEYS, 'users', 'seq', 'created', 'parent'], `
+    ${CHECK_LOCK}
+    local referrer, candidate, createdAt = ARGV[3], ARGV[4], ARGV[5]
+    if redis.call('ZSCORE', k('parents', candidate), referrer) then
+      return 0
+    end
+
+    if ARGV[7] ~= '1' then
+      -- The referral closes a cycle if the referrer is below the candidate
+      if referrer == candidate then
+        return redis.error_reply('CYCLE_DETECTED Referral would create a cycle')
+      end
+      local seen, queue, head = { [candidate] = true }, { candidate }, 1
+      while head <= #queue do
+        for _, child in ipairs(redis.call('ZRANGE', k('children', queue[head]), 0, -1)) do
+          if child == referrer then
+            return redis.error_reply('CYCLE_DETECTED Referral would create a cycle')
+          end
+          if not seen[child] then
+            seen[child] = true
+            queue[#queue + 1] = child
+          end
+        end
+        head = head + 1
+      end
+    end
+
+    if ARGV[6] ~= '1' and redis.call('ZCARD', k('parents', candidate)) > 0 then
+      return redis.error_reply('MULTIPLE_REFERRERS User already has a referrer')
+    end
+
+    ensureUser(referrer, createdAt)
+    ensureUser(candidate, createdAt)
+    local seq = incr(k('seq'))
+    zadd(k('children', referrer), seq, candidate)
+    zadd(k('parents', candidate), seq, referrer)
+    hset(k('referredAt', referrer), candidate, createdAt)
+    if redis.call('HEXISTS', k('parent'), candidate) == 0 then
+      hset(k('parent'), candidate, referrer)
+    end
+    return 1
+  `),
+
+  // ARGV[3] referrer, ARGV[4] candidate, ARGV[5] removedAt
+  removeReferral: defineScript([...WRITE_KEYS, 'parent', 'removedReferrals'], `
+    ${CHECK_LOCK}
+    unlink(ARGV[3], ARGV[4], ARGV[5])
+    return 1
+  `),
+
+  // ARGV[3] user, ARGV[4] removedAt
+  removeUser: defineScript([...WRITE_KEYS, 'users', 'created', 'parent', 'removedUsers', 'removedReferrals'], `
+    ${CHECK_LOCK}
+    local userId, removedAt = ARGV[3], ARGV[4]
+    if not redis.call('ZSCORE', k('users'), userId) then
+      return 0
+    end
+
+    -- Referrals to the user go into the history before referrals by it
+    for _, referrer in ipairs(redis.call('ZRANGE', k('parents', userId), 0, -1)) do
+      unlink(referrer, userId, removedAt)
+    end
+    for _, child in ipairs(redis.call('ZRANGE', k('children', userId), 0, -1)) do
+      unlink(userId, child, removedAt)
+    end
+
+    rpush(k('removedUsers'), userId, redis.call('HGET', k('created'), userId), removedAt)
+    zrem(k('users'), userId)
+    hdel(k('created'), userId)
+    hdel(k('parent'), userId)
+    return 1
+  `),
+
+  clear: defineScript([...WRITE_KEYS, 'users', 'created', 'parent', 'seq', 'removedUsers', 'removedReferrals'], `
+    ${CHECK_LOCK}
+    for _, suffix in ipairs(namespaceKeys()) do
+      del(p .. ':' .. suffix)
+    end
+    return 1
+  `),
+
+  // ARGV[3..] users to read; every user if none are given
+  readUsers: defineScript(['users', 'created'], `
+    local ids = {}
+    if #ARGV > 2 then
+      for i = 3, #ARGV do
+        ids[#ids + 1] = ARGV[i]
+      end
+    else
+      ids = redis.call('ZRANGE', k('users'), 0, -1)
+    end
+
+    local result = {}
+    for _, userId in ipairs(ids) do
+      local createdAt = redis.call('HGET', k('created'), userId)
+      if createdAt then
+        result[#result + 1] = {
+          userId,
+          createdAt,
+          redis.call('ZRANGE', k('children', userId), 0, -1),
+          redis.call('ZRANGE', k('parents', userId), 0, -1)
+        }
+      end
+    end
+    return result
+  `),
+
+  // ARGV[3] 'children' or 'parents', ARGV[4..] starting users; returns
+  // {user, neighbours} for every user reachable from them
+  collect: defineScript([], `
+    local kind = ARGV[3]
+    local seen, queue, result = {}, {}, {}
+    for i = 4, #ARGV do
+      if not seen[ARGV[i]] then
+        seen[ARGV[i]] = true
+        queue[#queue + 1] = ARGV[i]
+      end
+    end
+
+    local head = 1
+    while head <= #queue do
+      local userId = queue[head]
+      head = head + 1
+      local neighbours = redis.call('ZRANGE', k(kind, userId), 0, -1)
+      if #neighbours > 0 then
+        result[#result + 1] = { userId, neighbours }
+      end
+      for _, neighbour in ipairs(neighbours) do
+        if not seen[neighbour] then
+          seen[neighbour] = true
+          queue[#queue + 1] = neighbour
+        end
+      end
+    end
+    return result
+  `),
+
+  // ARGV[3] referrer; every referral if not given
+  relationships: defineScript(['users'], `
+    if ARGV[3] then
+      return relationships({ ARGV[3] })
+    end
+    return relationships(redis.call('ZRANGE', k('users'), 0, -1))
+  `),
+
+  userHistory: defineScript(['users', 'created', 'removedUsers'], `
+    local present = {}
+    for _, userId in ipairs(redis.call('ZRANGE', k('users'), 0, -1)) do
+      present[#present + 1] = { userId, redis.call('HGET', k('created'), userId) }
+    end
+    return { redis.call('LRANGE', k('removedUsers'), 0, -1), present }
+  `),
+
+  referralHistory: defineScript(['users', 'removedReferrals'], `
+    return {
+      redis.call('LRANGE', k('removedReferrals'), 0, -1),
+      relationships(redis.call('ZRANGE', k('users'), 0, -1))
+    }
+  `),
+
+  // ARGV[3] lock TTL in ms; extend the transaction's lock and undo log, or
+  // return 0 if the lock has expired
+  refresh: defineScript(WRITE_KEYS, `
+    if redis.call('GET', k('lock')) ~= token then
+      return 0
+    end
+    redis.call('PEXPIRE', k('lock'), ARGV[3])
+    redis.call('PEXPIRE', undo, ARGV[3])
+    return 1
+  `),
+
+  // Undo the transaction's writes, newest first. Once the lock has expired
+  // another client may have written since, so nothing is undone.
+  rollback: defineScript(WRITE_KEYS, `
+    if redis.call('GET', k('lock')) ~= token then
+      redis.call('DEL', undo)
+      return redis.error_reply('LOCK_LOST The transaction lock has expired')
+    end
+
+    local entries = redis.call('LRANGE', undo, 0, -1)
+    for i = #entries - 3, 1, -4 do
+      local operation, key, a, b = entries[i], entries[i + 1], entries[i + 2], entries[i + 3]
+      if operation == 'zadd' then
+        redis.call('ZADD', key, b, a)
+      elseif operation == 'zrem' then
+        redis.call('ZREM', key, a)
+      elseif operation == 'hset' then
+        redis.call('HSET', key, a, b)
+      elseif operation == 'hdel' then
+        redis.call('HDEL', key, a)
+      elseif operation == 'trim' then
+        if tonumber(a) == 0 then
+          redis.call('DEL', key)
+        else
+          redis.call('LTRIM', key, 0, tonumber(a) - 1)
+        end
+      elseif operation == 'rpush' then
+        redis.call('RPUSH', key, a)
+      elseif operation == 'set' then
+        redis.call('SET', key, a)
+      elseif operation == 'del' then
+        redis.call('DEL', key)
+      end
+    end
+    redis.call('DEL', undo)
+    return 1
+  `),
+
+  // Drop the transaction's undo log and release its lock
+  finish: defineScript(WRITE_KEYS, `
+    redis.call('DEL', undo)
+    if redis.call('GET', k('lock')) == token then
+      redis.call('DEL', k('lock'))
+    end
+    return 1
+  `)
+};
+
+export class RedisStorage implements IReferralStorage {
+  private client: Redis | null = null;
+  // Token of the transaction running in the current async context
+  private readonly transactionToken = new AsyncLocalStorage<string>();
+  private readonly options: RedisStorageOptions;
+  private readonly prefix: string;
+  private readonly timeout: number;
+
+  constructor(options: RedisStorageOptions = {}) {
+    const keyPrefix = options.keyPrefix ?? 'referral';
+    if (keyPrefix === '' || /[{}]/.test(keyPrefix)) {
+      throw new Error(`Invalid key prefix: ${keyPrefix}`);
+    }
+
+    this.options = options;
+    // The hash tag keeps every key in one cluster slot, as scripts require
+    this.prefix = `{${keyPrefix}}`;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.client) {
+      return;
+    }
+
+    if (this.options.client) {
+      this.client = this.options.client;
+      return;
+    }
+
+    const { Redis } = await import('ioredis').catch((error: unknown) => {
+      throw missingDriver('ioredis', 'Redis', error);
+    });
+    const settings = {
+      commandTimeout: this.timeout,
+      connectTimeout: this.timeout,
+      maxRetriesPerRequest: this.options.retryAttempts ?? 3,
+      lazyConnect: true
+    };
+    const client = this.options.connectionString
+      ? new Redis(this.options.connectionString, settings)
+      : new Redis(settings);
+    await client.connect();
+    this.client = client;
+  }
+
+  /**
+   * Close the connection; the data stays in Redis
+   */
+  async destroy(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    if (client && client !== this.options.client) {
+      await client.quit();
+    }
+  }
+
+  async addUser(userId: UserId, createdAt: Date = new Date()): Promise<void> {
+    await this.write(SCRIPTS.addUser, [userId, createdAt.getTime()]);
+  }
+
+  async getUser(userId: UserId): Promise<UserNode | null> {
+    const [user] = await this.readUsers([userId]);
+    return user ?? null;
+  }
+
+  async userExists(userId: UserId): Promise<boolean> {
+    const score = await this.requireClient().zscore(this.key('users'), userId);
+    return score !== null;
+  }
+
+  /**
+   * Add a referral relationship
+   *
+   * Checked and written in one script. Unless cycles are allowed, a referral
+   * that would close a cycle is rejected with CYCLE_DETECTED; unless multiple
+   * referrers are allowed, a candidate that already has another referrer is
+   * rejected with MULTIPLE_REFERRERS.
+   */
+  async addReferral(referrer: UserId, candidate: UserId, createdAt: Date = new Date()): Promise<void> {
+    try {
+      await this.write(SCRIPTS.addReferral, [
+        referrer,
+        candidate,
+        createdAt.getTime(),
+        this.options.allowMultipleReferrers ? '1' : '0',
+        this.options.allowCycles ? '1' : '0'
+      ], this.referralKeys(referrer, candidate));
+    } catch (error) {
+      const code = replyCode(error);
+      if (code === ReferralErrorType.CYCLE_DETECTED) {
+        throw new ReferralError(ReferralErrorType.CYCLE_DETECTED, 'Referral would create a cycle', { referrer, candidate });
+      }
+      if (code === ReferralErrorType.MULTIPLE_REFERRERS) {
+        throw new ReferralError(ReferralErrorType.MULTIPLE_REFERRERS, 'User already has a referrer', { referrer, candidate });
+      }
+      throw error;
+    }
+  }
+
+  async getAllUsers(): Promise<UserNode[]> {
+    return this.readUsers([]);
+  }
+
+  async getDirectReferrals(userId: UserId): Promise<UserId[]> {
+    return this.requireClient().zrange(this.key('children', userId), 0, -1);
+  }
+
+  async getAllReferrals(userId: UserId): Promise<UserId[]> {
+    const childrenOf = await this.collect('children', [userId]);
+    return Array.from(walkDescendants(userId, childrenOf, { order: 'dfs' }), entry => entry.userId);
+  }
+
+  async *traverseReferrals(userId: UserId, options: TraversalOptions = {}): AsyncIterable<TraversalEntry> {
+    const childrenOf = await this.collect('children', [userId]);
+    yield* walkDescendants(userId, childrenOf, options);
+  }
+
+  async getParent(userId: UserId): Promise<UserId | null> {
+    return this.requireClient().hget(this.key('parent'), userId);
+  }
+
+  async getParents(userId: UserId): Promise<UserId[]> {
+    return this.requireClient().zrange(this.key('parents', userId), 0, -1);
+  }
+
+  async getAncestors(userId: UserId): Promise<UserId[]> {
+    const parentsOf = await this.collect('parents', [userId]);
+    return Array.from(walkAncestors(userId, parentsOf), ancestor => ancestor.userId);
+  }
+
+  async getDepth(userId: UserId): Promise<number> {
+    return nearestRoot(userId, await this.collect('parents', [userId])).distance;
+  }
+
+  async getRoot(userId: UserId): Promise<UserId> {
+    return nearestRoot(userId, await this.collect('parents', [userId])).userId;
+  }
+
+  async getLowestCommonAncestor(a: UserId, b: UserId): Promise<UserId | null> {
+    return lowestCommonAncestor(a, b, await this.collect('parents', [a, b]));
+  }
+
+  async getReferralPath(from: UserId, to: UserId): Promise<UserId[] | null> {
+    return referralPath(from, to, await this.collect('parents', [to]));
+  }
+
+  async getReach(userId: UserId): Promise<number> {
+    const childrenOf = await this.collect('children', [userId]);
+    return Array.from(walkDescendants(userId, childrenOf)).length;
+  }
+
+  async getReachScores(): Promise<Map<UserId, number>> {
+    const users = await this.usersById();
+    const index = new ReachIndex(() => users);
+    index.rebuild();
+    return index.scores();
+  }
+
+  async getUserCount(): Promise<number> {
+    return this.requireClient().zcard(this.key('users'));
+  }
+
+  async getNetworkStats(): Promise<NetworkStats> {
+    const users = await this.usersById();
+    const totalUsers = users.size;
+    let totalReferrals = 0;
+    for (const user of users.values()) {
+      totalReferrals += user.directReferrals.length;
+    }
+
+    const condensation = condense(users.keys(), userId => users.get(userId)?.directReferrals ?? []);
+
+    return {
+      totalUsers,
+      totalReferrals,
+      maxDepth: longestComponentChain(condensation),
+      averageReferralsPerUser: totalUsers > 0 ? totalReferrals / totalUsers : 0
+    };
+  }
+
+  async isAncestor(ancestor: UserId, userId: UserId): Promise<boolean> {
+    for (const entry of walkAncestors(userId, await this.collect('parents', [userId]))) {
+      if (entry.userId === ancestor) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async getAllReferralRelationships(): Promise<ReferralRelationship[]> {
+    return toRelationships(await this.run(SCRIPTS.relationships, []));
+  }
+
+  async getReferralRelationships(referrer: UserId): Promise<ReferralRelationship[]> {
+    return toRelationships(await this.run(SCRIPTS.relationships, [referrer], [
+      this.key('children', referrer),
+      this.key('referredAt', referrer)
+    ]));
+  }
+
+  async removeUser(userId: UserId, removedAt: Date = new Date()): Promise<void> {
+    await this.write(SCRIPTS.removeUser, [userId, removedAt.getTime()], [
+      this.key('parents', userId),
+      this.key('children', userId),
+      this.key('referredAt', userId)
+    ]);
+  }
+
+  async removeReferral(referrer: UserId, candidate: UserId, removedAt: Date = new Date()): Promise<void> {
+    await this.write(SCRIPTS.removeReferral, [referrer, candidate, removedAt.getTime()], this.referralKeys(referrer, candidate));
+  }
+
+  async getUserHistory(): Promise<UserHistoryEntry[]> {
+    const [removed, present] = asArray(await this.run(SCRIPTS.userHistory, []));
+    const history: UserHistoryEntry[] = [];
+
+    const removedFields = asStrings(removed);
+    for (let i = 0; i + 2 < removedFields.length; i += 3) {
+      history.push({
+        userId: removedFields[i] ?? '',
+        createdAt: toDate(removedFields[i + 1]),
+        removedAt: toDate(removedFields[i + 2])
+      });
+    }
+    for (const entry of asArray(present)) {
+      const [userId = '', createdAt] = asStrings(entry);
+      history.push({ userId, createdAt: toDate(createdAt) });
+    }
+    return history;
+  }
+
+  async getReferralHistory(): Promise<ReferralHistoryEntry[]> {
+    const [removed, present] = asArray(await this.run(SCRIPTS.referralHistory, []));
+    const history: ReferralHistoryEntry[] = [];
+
+    const removedFields = asStrings(removed);
+    for (let i = 0; i + 3 < removedFields.length; i += 4) {
+      history.push({
+        referrer: removedFields[i] ?? '',
+        candidate: removedFields[i + 1] ?? '',
+        createdAt: toDate(removedFields[i + 2]),
+        removedAt: toDate(removedFields[i + 3])
+      });
+    }
+    history.push(...toRelationships(present));
+    return history;
+  }
+
+  /**
+   * Run an operation as a single transaction
+   *
+   * The transaction locks the key prefix, so writes from other clients wait
+   * until it finishes and transactions are serialized among writers. Reads
+   * are not isolated: other clients read the transaction's writes before it
+   * commits, as under read uncommitted. Each write logs the steps that undo
+   * it, and if the operation throws they are replayed newest first, so a
+   * rollback costs as much as the transaction's own writes.
+   *
+   * The lock is refreshed while the operation runs. If it expires anyway,
+   * for example while the process is paused, the transaction's next write
+   * fails with LOCK_LOST, and its earlier writes are left in place rather
+   * than rolled back over another client's changes.
+   */
+  async runInTransaction<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.transactionToken.getStore() !== undefined) {
+      return operation();
+    }
+
+    const token = randomUUID();
+    await this.acquireLock(token);
+    return this.transactionToken.run(token, async () => {
+      // Started inside the transaction's context, so refreshes carry its token
+      const refresher = setInterval(() => {
+        this.run(SCRIPTS.refresh, [LOCK_TTL]).catch(() => undefined);
+      }, LOCK_TTL / 3);
+      try {
+        return await operation();
+      } catch (error) {
+        await this.rollback(error);
+        throw error;
+      } finally {
+        clearInterval(refresher);
+        await this.run(SCRIPTS.finish, []);
+      }
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.write(SCRIPTS.clear, []);
+  }
+
+  private requireClient(): Redis {
+    if (!this.client) {
+      throw new Error('Redis storage is not initialized');
+    }
+    return this.client;
+  }
+
+  private key(kind: string, id?: UserId): string {
+    return id === undefined ? `${this.prefix}:${kind}` : `${this.prefix}:${kind}:${id}`;
+  }
+
+  /**
+   * Keys of the referrer and candidate that a referral script reads or writes
+   */
+  private referralKeys(referrer: UserId, candidate: UserId): string[] {
+    return [
+      this.key('children', referrer),
+      this.key('referredAt', referrer),
+      this.key('parents', candidate),
+      this.key('children', candidate)
+    ];
+  }
+
+  /**
+   * Run a script, loading it into the server's script cache on first use
+   *
+   * KEYS holds the script's fixed keys followed by `userKeys`, which also
+   * routes the call in Redis Cluster. Keys a script reaches by walking the
+   * graph cannot be named up front; they share the prefix's hash tag, so they
+   * live in the same slot as the declared ones.
+   */
+  private async run(script: LuaScript, args: Array<string | number>, userKeys: string[] = []): Promise<unknown> {
+    const client = this.requireClient();
+    const token = this.transactionToken.getStore();
+    const keys = script.keys.flatMap(kind => {
+      if (kind !== 'undo') {
+        return [this.key(kind)];
+      }
+      return token === undefined ? [] : [this.key('undo', token)];
+    });
+    keys.push(...userKeys);
+    const argv = [this.prefix, token ?? '', ...args];
+    try {
+      return await client.evalsha(script.sha, keys.length, ...keys, ...argv);
+    } catch (error) {
+      if (replyCode(error) !== 'NOSCRIPT') {
+        throw error;
+      }
+      return client.eval(script.source, keys.length, ...keys, ...argv);
+    }
+  }
+
+  /**
+   * Run a write script, waiting while another client's transaction holds the lock
+   */
+  private async write(script: LuaScript, args: Array<string | number>, userKeys: string[] = []): Promise<void> {
+    const deadline = Date.now() + this.timeout;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.run(script, args, userKeys);
+        return;
+      } catch (error) {
+        if (replyCode(error) !== 'LOCKED' || Date.now() >= deadline) {
+          throw error;
+        }
+      }
+      await delay(Math.min(2 ** attempt * 5, 200));
+    }
+  }
+
+  private async acquireLock(token: string): Promise<void> {
+    const deadline = Date.now() + this.timeout;
+    for (let attempt = 0; ; attempt++) {
+      const acquired = await this.requireClient().set(this.key('lock'), token, 'PX', LOCK_TTL, 'NX');
+      if (acquired !== null) {
+        return;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error('Timed out waiting for another Redis transaction to finish');
+      }
+      await delay(Math.min(2 ** attempt * 5, 200));
+    }
+  }
+
+  /**
+   * Undo the current transaction's writes after `error`
+   */
+  private async rollback(error: unknown): Promise<void> {
+    try {
+      await this.run(SCRIPTS.rollback, []);
+    } catch (rollbackError) {
+      if (replyCode(rollbackError) !== 'LOCK_LOST') {
+        throw rollbackError;
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Redis transaction lock expired, so its writes were not rolled back after: ${reason}`);
+    }
+  }
+
+  private async readUsers(userIds: UserId[]): Promise<UserNode[]> {
+    const reply = await this.run(
+      SCRIPTS.readUsers,
+      userIds,
+      userIds.flatMap(userId => [this.key('children', userId), this.key('parents', userId)])
+    );
+    return asArray(reply).map(entry => {
+      const [userId, createdAt, children, parents] = asArray(entry);
+      const parentIds = asStrings(parents);
+      const [parent] = parentIds;
+      return {
+        userId: String(userId),
+        directReferrals: asStrings(children),
+        parents: parentIds,
+        createdAt: toDate(createdAt),
+        ...(parent !== undefined && { parent })
+      };
+    });
+  }
+
+  private async usersById(): Promise<Map<UserId, UserNode>> {
+    const users = await this.getAllUsers();
+    return new Map(users.map(user => [user.userId, user]));
+  }
+
+  /**
+   * Load the referrals reachable from some users, in one direction, and look
+   * them up by user
+   */
+  private async collect(kind: 'children' | 'parents', userIds: UserId[]): Promise<(userId: UserId) => UserId[]> {
+    const reply = await this.run(SCRIPTS.collect, [kind, ...userIds], userIds.map(userId => this.key(kind, userId)));
+    const neighbours = new Map<UserId, UserId[]>();
+    for (const entry of asArray(reply)) {
+      const [userId, ids] = asArray(entry);
+      neighbours.set(String(userId), asStrings(ids));
+    }
+    return userId => neighbours.get(userId) ?? [];
+  }
+}
+
+function toRelationships(reply: unknown): ReferralRelationship[] {
+  return asArray(reply).map(entry => {
+    const [referrer = '', candidate = '', createdAt] = asStrings(entry);
+    return { referrer, candidate, createdAt: toDate(createdAt) };
+  });
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asStrings(value: unknown): string[] {
+  return asArray(value).map(item => String(item));
+}
+
+function toDate(value: unknown): Date {
+  return new Date(Number(value));
+}
+
+/**
+ * Get the code a Redis error reply starts with, e.g. LOCKED or NOSCRIPT
+ */
+function replyCode(error: unknown): string | undefined {
+  const message = error instanceof Error ? error.message : '';
+  return /^(?:ERR )?([A-Z_]+)\b/.exec(message)?.[1];
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -6,8 +6,11 @@
 
 import { IReferralStorage, IStorageFactory, StorageConfig } from './interfaces.js';
 import { InMemoryStorage } from './InMemoryStorage.js';
+import { FileStorage } from './FileStorage.js';
+import { PostgresStorage } from './PostgresStorage.js';
+import { RedisStorage } from './RedisStorage.js';
 
-export type StorageType = 'in-memory' | 'postgresql' | 'mongodb' | 'redis';
+export type StorageType = 'in-memory' | 'file' | 'postgresql' | 'mongodb' | 'redis';
 
 export class StorageFactory implements IStorageFactory {
   /**
@@ -18,17 +21,42 @@ export class StorageFactory implements IStorageFactory {
       case 'in-memory':
         return new InMemoryStorage();
       
+      case 'file':
+        if (!config.filePath) {
+          throw new Error('File storage requires a filePath');
+        }
+        return new FileStorage({
+          path: config.filePath,
+          ...(config.compactThreshold !== undefined && { compactThreshold: config.compactThreshold })
+        });
+      
       case 'postgresql':
-        // In a real implementation, you would return a PostgreSQL-backed storage
-        throw new Error('PostgreSQL storage not implemented yet');
+        if (!config.connectionString) {
+          throw new Error('PostgreSQL storage requires a connectionString');
+        }
+        return new PostgresStorage({
+          connectionString: config.connectionString,
+          ...(config.tableName !== undefined && { tableName: config.tableName }),
+          ...(config.maxConnections !== undefined && { maxConnections: config.maxConnections }),
+          ...(config.timeout !== undefined && { timeout: config.timeout }),
+          ...(config.retryAttempts !== undefined && { retryAttempts: config.retryAttempts }),
+          ...(config.allowMultipleReferrers !== undefined && { allowMultipleReferrers: config.allowMultipleReferrers }),
+          ...(config.allowCycles !== undefined && { allowCycles: config.allowCycles })
+        });
       
       case 'mongodb':
         // In a real implementation, you would return a MongoDB-backed storage
         throw new Error('MongoDB storage not implemented yet');
       
       case 'redis':
-        // In a real implementation, you would return a Redis-backed storage
-        throw new Error('Redis storage not implemented yet');
+        return new RedisStorage({
+          ...(config.connectionString !== undefined && { connectionString: config.connectionString }),
+          ...(config.tableName !== undefined && { keyPrefix: config.tableName }),
+          ...(config.timeout !== undefined && { timeout: config.timeout }),
+          ...(config.retryAttempts !== undefined && { retryAttempts: config.retryAttempts }),
+          ...(config.allowMultipleReferrers !== undefined && { allowMultipleReferrers: config.allowMultipleReferrers }),
+          ...(config.allowCycles !== undefined && { allowCycles: config.allowCycles })
+        });
       
       default:
         throw new Error(`Unsupported storage type: ${config.type}`);
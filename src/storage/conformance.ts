@@ -0,0 +1,597 @@
+/**
+ * Conformance suite for IReferralStorage implementations
+ *
+ * Registers node:test cases that check a backend behaves like
+ * InMemoryStorage: every interface method, the edge cases callers rely on
+ * (unknown users, repeated writes, returned arrays being copies, what
+ * removals leave behind) and the invariants linking users, referrals,
+ * reach and history. Call it from a file run with `node --test`.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { IReferralStorage } from './interfaces.js';
+import { UserId, TraversalOptions, TraversalEntry } from '../types/index.js';
+
+/**
+ * Creates a storage for a single test; it is initialized and cleared first
+ * and destroyed afterwards
+ */
+export type ConformanceStorageFactory = () => IReferralStorage | Promise<IReferralStorage>;
+
+/**
+ * Register the conformance tests for the storages a factory creates
+ *
+ * The suite expects InMemoryStorage's permissive behaviour, so backends that
+ * enforce referral rules themselves should be created with multiple
+ * referrers and cycles allowed.
+ */
+export function runStorageConformanceSuite(
+  factory: ConformanceStorageFactory,
+  name = 'IReferralStorage conformance'
+): void {
+  describe(name, () => {
+    let storage: IReferralStorage;
+
+    beforeEach(async () => {
+      storage = await factory();
+      await storage.initialize();
+      await storage.clear();
+    });
+
+    afterEach(async () => {
+      await storage.destroy();
+    });
+
+    describe('users', () => {
+      it('adds a user with no relationships', async () => {
+        await storage.addUser('alice', at(1));
+
+        const user = await storage.getUser('alice');
+        assert.ok(user);
+        assert.equal(user.userId, 'alice');
+        assert.deepEqual(user.directReferrals, []);
+        assert.deepEqual(user.parents, []);
+        assert.equal(user.parent, undefined);
+        assert.equal(user.createdAt.getTime(), at(1).getTime());
+        assert.equal(await storage.userExists('alice'), true);
+      });
+
+      it('keeps the original creation time when a user is added again', async () => {
+        await storage.addUser('alice', at(1));
+        await storage.addUser('alice', at(2));
+
+        assert.equal((await storage.getUser('alice'))?.createdAt.getTime(), at(1).getTime());
+        assert.equal(await storage.getUserCount(), 1);
+      });
+
+      it('lists users in the order they were added', async () => {
+        for (const [index, userId] of ['carol', 'alice', 'bob'].entries()) {
+          await storage.addUser(userId, at(index));
+        }
+
+        assert.deepEqual((await storage.getAllUsers()).map(user => user.userId), ['carol', 'alice', 'bob']);
+        assert.equal(await storage.getUserCount(), 3);
+      });
+
+      it('answers queries about unknown users without throwing', async () => {
+        assert.equal(await storage.getUser('ghost'), null);
+        assert.equal(await storage.userExists('ghost'), false);
+        assert.equal(await storage.getParent('ghost'), null);
+        assert.deepEqual(await storage.getParents('ghost'), []);
+        assert.deepEqual(await storage.getDirectReferrals('ghost'), []);
+        assert.deepEqual(await storage.getAllReferrals('ghost'), []);
+        assert.deepEqual(await collect(storage, 'ghost'), []);
+        assert.deepEqual(await storage.getAncestors('ghost'), []);
+        assert.equal(await storage.getDepth('ghost'), 0);
+        assert.equal(await storage.getRoot('ghost'), 'ghost');
+        assert.equal(await storage.getReach('ghost'), 0);
+        assert.deepEqual(await storage.getReferralRelationships('ghost'), []);
+        assert.equal(await storage.isAncestor('ghost', 'phantom'), false);
+      });
+    });
+
+    describe('referrals', () => {
+      it('creates missing users at the time of the referral', async () => {
+        await storage.addReferral('alice', 'bob', at(5));
+
+        assert.equal((await storage.getUser('alice'))?.createdAt.getTime(), at(5).getTime());
+        assert.equal((await storage.getUser('bob'))?.createdAt.getTime(), at(5).getTime());
+        assert.deepEqual(await storage.getAllReferralRelationships(), [
+          { referrer: 'alice', candidate: 'bob', createdAt: at(5) }
+        ]);
+      });
+
+      it('links both sides of a referral', async () => {
+        await storage.addUser('alice', at(1));
+        await storage.addUser('bob', at(2));
+        await storage.addReferral('alice', 'bob', at(3));
+
+        const alice = await storage.getUser('alice');
+        const bob = await storage.getUser('bob');
+        assert.deepEqual(alice?.directReferrals, ['bob']);
+        assert.deepEqual(bob?.parents, ['alice']);
+        assert.equal(bob?.parent, 'alice');
+        assert.equal(bob?.createdAt.getTime(), at(2).getTime());
+        assert.equal(await storage.getParent('bob'), 'alice');
+      });
+
+      it('keeps referrals and referrers in the order they were added', async () => {
+        await storage.addReferral('alice', 'dave', at(1));
+        await storage.addReferral('alice', 'bob', at(2));
+        await storage.addReferral('carol', 'bob', at(3));
+        await storage.addReferral('alice', 'carol', at(4));
+
+        assert.deepEqual(await storage.getDirectReferrals('alice'), ['dave', 'bob', 'carol']);
+        assert.deepEqual(await storage.getParents('bob'), ['alice', 'carol']);
+        assert.equal(await storage.getParent('bob'), 'alice');
+        assert.deepEqual(
+          (await storage.getReferralRelationships('alice')).map(relationship => relationship.candidate),
+          ['dave', 'bob', 'carol']
+        );
+      });
+
+      it('ignores a repeated referral and keeps its original time', async () => {
+        await storage.addReferral('alice', 'bob', at(1));
+        await storage.addReferral('alice', 'bob', at(2));
+
+        assert.deepEqual(await storage.getDirectReferrals('alice'), ['bob']);
+        assert.deepEqual(await storage.getParents('bob'), ['alice']);
+        assert.deepEqual(await storage.getAllReferralRelationships(), [
+          { referrer: 'alice', candidate: 'bob', createdAt: at(1) }
+        ]);
+        assert.equal((await storage.getReferralHistory()).length, 1);
+      });
+
+      it('returns copies that callers can change freely', async () => {
+        await storage.addReferral('alice', 'bob', at(1));
+        await storage.addReferral('bob', 'carol', at(2));
+
+        (await storage.getDirectReferrals('alice')).push('mallory');
+        (await storage.getParents('bob')).push('mallory');
+        (await storage.getAllReferrals('alice')).push('mallory');
+        (await storage.getAncestors('carol')).push('mallory');
+        (await storage.getReferralPath('alice', 'carol'))?.push('mallory');
+        (await storage.getReachScores()).set('mallory', 1);
+
+        assert.deepEqual(await storage.getDirectReferrals('alice'), ['bob']);
+        assert.deepEqual(await storage.getParents('bob'), ['alice']);
+        assert.deepEqual(await storage.getAllReferrals('alice'), ['bob', 'carol']);
+        assert.deepEqual(await storage.getAncestors('carol'), ['bob', 'alice']);
+        assert.deepEqual(await storage.getReferralPath('alice', 'carol'), ['alice', 'bob', 'carol']);
+        assert.equal((await storage.getReachScores()).has('mallory'), false);
+        assert.equal(await storage.userExists('mallory'), false);
+      });
+    });
+
+    describe('traversal', () => {
+      // root -> a -> c, root -> a -> d, root -> b -> e
+      beforeEach(async () => {
+        await addReferrals(storage, [['root', 'a'], ['root', 'b'], ['a', 'c'], ['a', 'd'], ['b', 'e']]);
+      });
+
+      it('lists every descendant depth first', async () => {
+        assert.deepEqual(await storage.getAllReferrals('root'), ['a', 'c', 'd', 'b', 'e']);
+        assert.deepEqual(await storage.getAllReferrals('a'), ['c', 'd']);
+        assert.deepEqual(await storage.getAllReferrals('e'), []);
+      });
+
+      it('streams descendants breadth first with depths and parents', async () => {
+        assert.deepEqual(await collect(storage, 'root'), [
+          { userId: 'a', depth: 1, parent: 'root' },
+          { userId: 'b', depth: 1, parent: 'root' },
+          { userId: 'c', depth: 2, parent: 'a' },
+          { userId: 'd', depth: 2, parent: 'a' },
+          { userId: 'e', depth: 2, parent: 'b' }
+        ]);
+      });
+
+      it('streams descendants depth first', async () => {
+        const entries = await collect(storage, 'root', { order: 'dfs' });
+        assert.deepEqual(entries.map(entry => entry.userId), ['a', 'c', 'd', 'b', 'e']);
+      });
+
+      it('honours maxDepth and limit', async () => {
+        assert.deepEqual((await collect(storage, 'root', { maxDepth: 1 })).map(entry => entry.userId), ['a', 'b']);
+        assert.deepEqual((await collect(storage, 'root', { limit: 3 })).map(entry => entry.userId), ['a', 'b', 'c']);
+        assert.deepEqual(await collect(storage, 'root', { limit: 0 }), []);
+        assert.deepEqual(await collect(storage, 'root', { maxDepth: 0 }), []);
+      });
+
+      it('walks up to the root', async () => {
+        assert.deepEqual(await storage.getAncestors('d'), ['a', 'root']);
+        assert.deepEqual(await storage.getAncestors('root'), []);
+        assert.equal(await storage.getDepth('d'), 2);
+        assert.equal(await storage.getDepth('root'), 0);
+        assert.equal(await storage.getRoot('d'), 'root');
+        assert.equal(await storage.getRoot('root'), 'root');
+        assert.equal(await storage.isAncestor('root', 'd'), true);
+        assert.equal(await storage.isAncestor('b', 'd'), false);
+        assert.equal(await storage.isAncestor('d', 'root'), false);
+        assert.equal(await storage.isAncestor('d', 'd'), false);
+      });
+
+      it('finds lowest common ancestors', async () => {
+        assert.equal(await storage.getLowestCommonAncestor('c', 'd'), 'a');
+        assert.equal(await storage.getLowestCommonAncestor('c', 'e'), 'root');
+        assert.equal(await storage.getLowestCommonAncestor('a', 'd'), 'a');
+        assert.equal(await storage.getLowestCommonAncestor('d', 'a'), 'a');
+        assert.equal(await storage.getLowestCommonAncestor('c', 'c'), 'c');
+
+        await storage.addUser('loner', at(99));
+        assert.equal(await storage.getLowestCommonAncestor('c', 'loner'), null);
+      });
+
+      it('finds referral paths downwards only', async () => {
+        assert.deepEqual(await storage.getReferralPath('root', 'd'), ['root', 'a', 'd']);
+        assert.deepEqual(await storage.getReferralPath('b', 'b'), ['b']);
+        assert.equal(await storage.getReferralPath('d', 'root'), null);
+        assert.equal(await storage.getReferralPath('a', 'e'), null);
+      });
+
+      it('produces a shared descendant once', async () => {
+        await storage.addReferral('b', 'c', at(10));
+
+        assert.deepEqual(await storage.getAllReferrals('root'), ['a', 'c', 'd', 'b', 'e']);
+        assert.deepEqual((await collect(storage, 'root')).map(entry => entry.userId), ['a', 'b', 'c', 'd', 'e']);
+        assert.deepEqual(await storage.getAncestors('c'), ['a', 'b', 'root']);
+        assert.equal(await storage.getReach('root'), 5);
+        assert.equal(await storage.getLowestCommonAncestor('d', 'c'), 'a');
+      });
+
+      it('terminates on cycles and leaves a user out of its own descendants', async () => {
+        await storage.addReferral('c', 'root', at(10));
+
+        assert.deepEqual(await storage.getAllReferrals('root'), ['a', 'c', 'd', 'b', 'e']);
+        assert.deepEqual(await storage.getAllReferrals('c'), ['root', 'a', 'd', 'b', 'e']);
+        assert.deepEqual(await storage.getAncestors('root'), ['c', 'a']);
+        assert.equal(await storage.getReach('root'), 5);
+        assert.equal(await storage.getReach('c'), 5);
+      });
+    });
+
+    describe('reach and statistics', () => {
+      it('counts distinct descendants for every user', async () => {
+        await addReferrals(storage, [['root', 'a'], ['root', 'b'], ['a', 'c'], ['b', 'c'], ['c', 'd']]);
+        await storage.addUser('loner', at(99));
+
+        assert.equal(await storage.getReach('root'), 4);
+        assert.equal(await storage.getReach('a'), 2);
+        assert.equal(await storage.getReach('d'), 0);
+        assert.deepEqual(await storage.getReachScores(), new Map([
+          ['root', 4], ['a', 2], ['b', 2], ['c', 1], ['d', 0], ['loner', 0]
+        ]));
+      });
+
+      it('counts a shared descendant once when a referral joins its referrers', async () => {
+        await addReferrals(storage, [['root', 'y'], ['y', 'c'], ['x', 'c']]);
+        assert.equal(await storage.getReach('root'), 2);
+
+        await storage.addReferral('root', 'x', at(10));
+        assert.equal(await storage.getReach('root'), 3);
+        assert.deepEqual(await storage.getReachScores(), new Map([['root', 3], ['y', 1], ['c', 0], ['x', 1]]));
+
+        await storage.removeReferral('y', 'c', at(11));
+        assert.equal(await storage.getReach('root'), 3);
+        assert.equal(await storage.getReach('y'), 0);
+
+        await storage.removeReferral('root', 'x', at(12));
+        assert.equal(await storage.getReach('root'), 1);
+      });
+
+      it('reports statistics for an empty network', async () => {
+        assert.deepEqual(await storage.getNetworkStats(), {
+          totalUsers: 0,
+          totalReferrals: 0,
+          maxDepth: 0,
+          averageReferralsPerUser: 0
+        });
+      });
+
+      it('reports statistics for a populated network', async () => {
+        await addReferrals(storage, [['root', 'a'], ['root', 'b'], ['a', 'c'], ['c', 'd']]);
+
+        assert.deepEqual(await storage.getNetworkStats(), {
+          totalUsers: 5,
+          totalReferrals: 4,
+          maxDepth: 3,
+          averageReferralsPerUser: 0.8
+        });
+      });
+    });
+
+    describe('removals', () => {
+      it('removes a referral from both sides and records it', async () => {
+        await addReferrals(storage, [['alice', 'carol'], ['bob', 'carol']]);
+        await storage.removeReferral('alice', 'carol', at(20));
+
+        assert.deepEqual(await storage.getDirectReferrals('alice'), []);
+        assert.deepEqual(await storage.getParents('carol'), ['bob']);
+        assert.equal(await storage.getParent('carol'), 'bob');
+        assert.deepEqual(await storage.getReferralRelationships('alice'), []);
+        assert.equal(await storage.userExists('alice'), true);
+
+        const removed = (await storage.getReferralHistory()).filter(entry => entry.removedAt);
+        assert.deepEqual(removed, [{ referrer: 'alice', candidate: 'carol', createdAt: at(0), removedAt: at(20) }]);
+      });
+
+      it('leaves a candidate without referrers as a root', async () => {
+        await addReferrals(storage, [['alice', 'bob'], ['bob', 'carol']]);
+        await storage.removeReferral('alice', 'bob', at(20));
+
+        assert.equal(await storage.getParent('bob'), null);
+        assert.equal((await storage.getUser('bob'))?.parent, undefined);
+        assert.equal(await storage.getRoot('carol'), 'bob');
+        assert.equal(await storage.getReach('alice'), 0);
+      });
+
+      it('ignores removing a referral that does not exist', async () => {
+        await addReferrals(storage, [['alice', 'bob']]);
+        await storage.removeReferral('bob', 'alice', at(20));
+        await storage.removeReferral('alice', 'ghost', at(20));
+
+        assert.deepEqual(await storage.getParents('bob'), ['alice']);
+        assert.deepEqual(await storage.getReferralHistory(), [
+          { referrer: 'alice', candidate: 'bob', createdAt: at(0) }
+        ]);
+      });
+
+      it('removes a user with its referrals in both directions', async () => {
+        await addReferrals(storage, [['root', 'mid'], ['mid', 'left'], ['mid', 'right'], ['other', 'right']]);
+        await storage.removeUser('mid', at(20));
+
+        assert.equal(await storage.userExists('mid'), false);
+        assert.equal(await storage.getUser('mid'), null);
+        assert.deepEqual(await storage.getDirectReferrals('root'), []);
+        assert.deepEqual(await storage.getParents('left'), []);
+        assert.equal(await storage.getParent('left'), null);
+        assert.equal(await storage.getRoot('left'), 'left');
+        assert.deepEqual(await storage.getParents('right'), ['other']);
+        assert.equal(await storage.getParent('right'), 'other');
+        assert.deepEqual(
+          (await storage.getAllUsers()).map(user => user.userId).sort(),
+          ['left', 'other', 'right', 'root']
+        );
+        assert.equal(await storage.getReach('root'), 0);
+        assert.equal(await storage.getReachScores().then(scores => scores.has('mid')), false);
+      });
+
+      it('keeps removed users and referrals in the history', async () => {
+        await storage.addUser('root', at(1));
+        await storage.addReferral('root', 'mid', at(2));
+        await storage.addReferral('mid', 'leaf', at(3));
+        await storage.removeUser('mid', at(20));
+
+        assert.deepEqual(sortBy(await storage.getUserHistory(), entry => entry.userId), [
+          { userId: 'leaf', createdAt: at(3) },
+          { userId: 'mid', createdAt: at(2), removedAt: at(20) },
+          { userId: 'root', createdAt: at(1) }
+        ]);
+        assert.deepEqual(sortBy(await storage.getReferralHistory(), entry => entry.candidate), [
+          { referrer: 'mid', candidate: 'leaf', createdAt: at(3), removedAt: at(20) },
+          { referrer: 'root', candidate: 'mid', createdAt: at(2), removedAt: at(20) }
+        ]);
+        assert.deepEqual(await storage.getAllReferralRelationships(), []);
+      });
+
+      it('lets a removed user join again as a new user', async () => {
+        await storage.addReferral('alice', 'bob', at(1));
+        await storage.removeUser('bob', at(20));
+        await storage.addUser('bob', at(30));
+
+        assert.equal((await storage.getUser('bob'))?.createdAt.getTime(), at(30).getTime());
+        assert.deepEqual(await storage.getParents('bob'), []);
+        assert.deepEqual(
+          (await storage.getUserHistory()).filter(entry => entry.userId === 'bob').map(entry => entry.removedAt ?? null),
+          [at(20), null]
+        );
+      });
+
+      it('ignores removing an unknown user', async () => {
+        await addReferrals(storage, [['alice', 'bob']]);
+        await storage.removeUser('ghost', at(20));
+
+        assert.equal(await storage.getUserCount(), 2);
+        assert.equal((await storage.getUserHistory()).length, 2);
+      });
+    });
+
+    describe('transactions', () => {
+      it('commits the changes of a successful operation', async () => {
+        const result = await storage.runInTransaction(async () => {
+          await storage.addReferral('alice', 'bob', at(1));
+          await storage.addReferral('bob', 'carol', at(2));
+          return 'done';
+        });
+
+        assert.equal(result, 'done');
+        assert.deepEqual(await storage.getAllReferrals('alice'), ['bob', 'carol']);
+      });
+
+      it('rolls back every change when the operation throws', async () => {
+        await addReferrals(storage, [['alice', 'bob'], ['bob', 'carol']]);
+        const before = await snapshot(storage);
+        const failure = new Error('abort');
+
+        await assert.rejects(
+          storage.runInTransaction(async () => {
+            await storage.addReferral('carol', 'dave', at(10));
+            await storage.removeReferral('alice', 'bob', at(11));
+            await storage.removeUser('carol', at(12));
+            await storage.addUser('erin', at(13));
+            throw failure;
+          }),
+          error => error === failure
+        );
+
+        assert.deepEqual(await snapshot(storage), before);
+      });
+
+      it('joins a nested transaction to the outer one', async () => {
+        await assert.rejects(storage.runInTransaction(async () => {
+          await storage.runInTransaction(async () => {
+            await storage.addReferral('alice', 'bob', at(1));
+          });
+          assert.equal(await storage.userExists('bob'), true);
+          throw new Error('abort');
+        }));
+
+        assert.equal(await storage.userExists('alice'), false);
+        assert.equal(await storage.userExists('bob'), false);
+        assert.deepEqual(await storage.getReferralHistory(), []);
+      });
+    });
+
+    describe('clear', () => {
+      it('removes users, referrals and history', async () => {
+        await addReferrals(storage, [['alice', 'bob']]);
+        await storage.removeUser('bob', at(20));
+        await storage.clear();
+
+        assert.equal(await storage.getUserCount(), 0);
+        assert.deepEqual(await storage.getAllUsers(), []);
+        assert.deepEqual(await storage.getAllReferralRelationships(), []);
+        assert.deepEqual(await storage.getUserHistory(), []);
+        assert.deepEqual(await storage.getReferralHistory(), []);
+        assert.deepEqual(await storage.getReachScores(), new Map());
+      });
+    });
+
+    describe('invariants', () => {
+      it('keeps users, referrals, reach and history consistent through random changes', async () => {
+        const random = seededRandom(7);
+        const userIds = Array.from({ length: 12 }, (_, index) => `u${index}`);
+        const pick = (): UserId => userIds[Math.floor(random() * userIds.length)] ?? 'u0';
+
+        for (let step = 0; step < 150; step++) {
+          const roll = random();
+          if (roll < 0.6) {
+            await storage.addReferral(pick(), pick(), at(step));
+          } else if (roll < 0.75) {
+            await storage.addUser(pick(), at(step));
+          } else if (roll < 0.9) {
+            await storage.removeReferral(pick(), pick(), at(step));
+          } else {
+            await storage.removeUser(pick(), at(step));
+          }
+
+          if (step % 25 === 24) {
+            await assertConsistent(storage);
+          }
+        }
+        await assertConsistent(storage);
+      });
+    });
+  });
+}
+
+/**
+ * Check the invariants every storage must hold between its queries
+ */
+async function assertConsistent(storage: IReferralStorage): Promise<void> {
+  const users = await storage.getAllUsers();
+  const userIds = new Set(users.map(user => user.userId));
+  assert.equal(await storage.getUserCount(), users.length);
+  assert.equal(userIds.size, users.length, 'user ids are unique');
+
+  // Referrals are recorded on both sides and in the relationship list
+  const edges = new Set<string>();
+  const referredBy = new Set<string>();
+  for (const user of users) {
+    assert.equal(user.parent, user.parents[0], `parent of ${user.userId} is its first referrer`);
+    assert.deepEqual(await storage.getParents(user.userId), user.parents);
+    assert.deepEqual(await storage.getDirectReferrals(user.userId), user.directReferrals);
+    for (const childId of user.directReferrals) {
+      assert.ok(userIds.has(childId), `referral ${user.userId} -> ${childId} points at a user`);
+      edges.add(`${user.userId}:${childId}`);
+    }
+    for (const parentId of user.parents) {
+      referredBy.add(`${parentId}:${user.userId}`);
+    }
+  }
+  assert.deepEqual(Array.from(referredBy).sort(), Array.from(edges).sort());
+
+  const relationships = await storage.getAllReferralRelationships();
+  assert.deepEqual(
+    relationships.map(relationship => `${relationship.referrer}:${relationship.candidate}`).sort(),
+    Array.from(edges).sort()
+  );
+
+  // Reach matches the descendants the traversals produce
+  const scores = await storage.getReachScores();
+  assert.deepEqual(Array.from(scores.keys()).sort(), Array.from(userIds).sort());
+  for (const userId of userIds) {
+    const descendants = await storage.getAllReferrals(userId);
+    assert.equal(new Set(descendants).size, descendants.length, `descendants of ${userId} are distinct`);
+    assert.ok(!descendants.includes(userId), `${userId} is not its own descendant`);
+    assert.equal(await storage.getReach(userId), descendants.length);
+    assert.equal(scores.get(userId), descendants.length);
+  }
+
+  const stats = await storage.getNetworkStats();
+  assert.equal(stats.totalUsers, users.length);
+  assert.equal(stats.totalReferrals, relationships.length);
+
+  // Current users and referrals are exactly the history entries not yet removed
+  const presentUsers = (await storage.getUserHistory()).filter(entry => !entry.removedAt);
+  assert.deepEqual(presentUsers.map(entry => entry.userId).sort(), Array.from(userIds).sort());
+  const presentReferrals = (await storage.getReferralHistory()).filter(entry => !entry.removedAt);
+  assert.deepEqual(
+    presentReferrals.map(entry => `${entry.referrer}:${entry.candidate}`).sort(),
+    Array.from(edges).sort()
+  );
+}
+
+/**
+ * Everything observable about a storage, for before/after comparisons;
+ * cloned, since storages may hand out their live user nodes
+ */
+async function snapshot(storage: IReferralStorage): Promise<unknown> {
+  return structuredClone({
+    users: await storage.getAllUsers(),
+    referrals: await storage.getAllReferralRelationships(),
+    reach: await storage.getReachScores(),
+    userHistory: await storage.getUserHistory(),
+    referralHistory: await storage.getReferralHistory()
+  });
+}
+
+async function addReferrals(storage: IReferralStorage, referrals: Array<[UserId, UserId]>): Promise<void> {
+  for (const [index, [referrer, candidate]] of referrals.entries()) {
+    await storage.addReferral(referrer, candidate, at(index));
+  }
+}
+
+async function collect(
+  storage: IReferralStorage,
+  userId: UserId,
+  options?: TraversalOptions
+): Promise<TraversalEntry[]> {
+  const entries: TraversalEntry[] = [];
+  for await (const entry of storage.traverseReferrals(userId, options)) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+function sortBy<T>(items: T[], key: (item: T) => string): T[] {
+  return [...items].sort((a, b) => key(a).localeCompare(key(b)));
+}
+
+/**
+ * A fixed timestamp, so backends that store dates can be compared exactly
+ */
+function at(minute: number): Date {
+  return new Date(Date.UTC(2024, 0, 1, 0, minute));
+}
+
+/**
+ * Deterministic pseudo-random source so failures can be replayed
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 48271) % 2147483647;
+    return state / 2147483647;
+  };
+}
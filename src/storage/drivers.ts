@@ -0,0 +1,18 @@
+/**
+ * Helpers for the optional database drivers
+ *
+ * pg and ioredis are optional peer dependencies. The storages that need them
+ * import them when they are initialized, so applications that never use a
+ * database backend do not have to install or load either package.
+ */
+
+/**
+ * Explain that a driver package is not installed, or pass on any other import failure
+ */
+export function missingDriver(name: string, backend: string, error: unknown): unknown {
+  const code = typeof error === 'object' && error !== null ? (error as { code?: unknown }).code : undefined;
+  if (code !== 'ERR_MODULE_NOT_FOUND') {
+    return error;
+  }
+  return new Error(`${backend} storage requires the "${name}" package; install it with npm install ${name}`);
+}
@@ -9,7 +9,11 @@ import {
   UserId, 
   UserNode, 
   ReferralRelationship, 
-  NetworkStats
+  NetworkStats,
+  TraversalOptions,
+  TraversalEntry,
+  UserHistoryEntry,
+  ReferralHistoryEntry
 } from '../types/index.js';
 
 /**
@@ -62,19 +66,74 @@ export interface IReferralStorage {
   getAllReferrals(userId: UserId): Promise<UserId[]>;
 
   /**
-   * Get the parent (referrer) of a user
+   * Stream the descendants of a user in BFS or DFS order
+   * 
+   * Each descendant is produced once, even if it can be reached more than once.
+   */
+  traverseReferrals(userId: UserId, options?: TraversalOptions): AsyncIterable<TraversalEntry>;
+
+  /**
+   * Get the parent (first referrer) of a user
    */
   getParent(userId: UserId): Promise<UserId | null>;
 
+  /**
+   * Get every referrer of a user, in the order the referrals were added
+   */
+  getParents(userId: UserId): Promise<UserId[]>;
+
+  /**
+   * Get the distinct ancestors of a user, nearest first
+   * 
+   * With a single referrer per user this is the chain from the user's
+   * referrer up to the root.
+   */
+  getAncestors(userId: UserId): Promise<UserId[]>;
+
+  /**
+   * Get the fewest referrals between a user and a root (0 for roots)
+   */
+  getDepth(userId: UserId): Promise<number>;
+
+  /**
+   * Get the nearest root above a user (the user itself for roots)
+   */
+  getRoot(userId: UserId): Promise<UserId>;
+
+  /**
+   * Get the nearest user to `b` that is, or is an ancestor of, both users
+   */
+  getLowestCommonAncestor(a: UserId, b: UserId): Promise<UserId | null>;
+
+  /**
+   * Get the shortest chain of referrals leading from one user down to another
+   */
+  getReferralPath(from: UserId, to: UserId): Promise<UserId[] | null>;
+
+  /**
+   * Get the number of distinct descendants of a user
+   */
+  getReach(userId: UserId): Promise<number>;
+
+  /**
+   * Get the number of distinct descendants of every user
+   */
+  getReachScores(): Promise<Map<UserId, number>>;
+
+  /**
+   * Get the number of users in the network
+   */
+  getUserCount(): Promise<number>;
+
   /**
    * Get network statistics
    */
   getNetworkStats(): Promise<NetworkStats>;
 
   /**
-   * Check if adding a referral would create a cycle
+   * Check if `ancestor` can be reached by following referrers up from `userId`
    */
-  wouldCreateCycle(referrer: UserId, candidate: UserId): Promise<boolean>;
+  isAncestor(ancestor: UserId, userId: UserId): Promise<boolean>;
 
   /**
    * Get all referral relationships
@@ -82,14 +141,45 @@ export interface IReferralStorage {
   getAllReferralRelationships(): Promise<ReferralRelationship[]>;
 
   /**
-   * Remove a user and all their relationships
+   * Get the referral relationships made by a user
+   */
+  getReferralRelationships(referrer: UserId): Promise<ReferralRelationship[]>;
+
+  /**
+   * Remove a user and all their relationships, in both directions
+   * 
+   * The user and its referrals stay in the history, marked as removed at
+   * `removedAt`.
+   */
+  removeUser(userId: UserId, removedAt?: Date): Promise<void>;
+
+  /**
+   * Remove a specific referral relationship; the candidate keeps any other referrers
+   * 
+   * The referral stays in the history, marked as removed at `removedAt`.
+   */
+  removeReferral(referrer: UserId, candidate: UserId, removedAt?: Date): Promise<void>;
+
+  /**
+   * Get every user that is or was part of the network, with removal times
    */
-  removeUser(userId: UserId): Promise<void>;
+  getUserHistory(): Promise<UserHistoryEntry[]>;
 
   /**
-   * Remove a specific referral relationship
+   * Get every referral that is or was part of the network, with removal times
    */
-  removeReferral(referrer: UserId, candidate: UserId): Promise<void>;
+  getReferralHistory(): Promise<ReferralHistoryEntry[]>;
+
+  /**
+   * Run an operation as a single transaction
+   * 
+   * If the operation throws, every change it made is rolled back and the
+   * error is rethrown; otherwise its changes are committed. Transactions
+   * started inside a running transaction join the outer one. Backends may
+   * run the operation again after a transient conflict, so it must be safe
+   * to repeat.
+   */
+  runInTransaction<T>(operation: () => Promise<T>): Promise<T>;
 
   /**
    * Clear all data (useful for testing)
@@ -97,6 +187,31 @@ export interface IReferralStorage {
   clear(): Promise<void>;
 }
 
+/**
+ * Query-only subset of IReferralStorage, safe to hand to validation rules
+ */
+export type IReadOnlyReferralStorage = Pick<
+  IReferralStorage,
+  | 'getUser'
+  | 'userExists'
+  | 'getAllUsers'
+  | 'getDirectReferrals'
+  | 'getAllReferrals'
+  | 'getParent'
+  | 'getParents'
+  | 'getAncestors'
+  | 'getDepth'
+  | 'getRoot'
+  | 'getReach'
+  | 'getUserCount'
+  | 'getNetworkStats'
+  | 'isAncestor'
+  | 'getAllReferralRelationships'
+  | 'getReferralRelationships'
+  | 'getUserHistory'
+  | 'getReferralHistory'
+>;
+
 /**
  * Configuration for storage backends
  */
@@ -108,6 +223,14 @@ export interface StorageConfig {
   maxConnections?: number;
   timeout?: number;
   retryAttempts?: number;
+  /** Log file path for file storage */
+  filePath?: string;
+  /** Log entries between compacted snapshots, for file storage */
+  compactThreshold?: number;
+  /** Whether the backend should let a user have several referrers, for database storage */
+  allowMultipleReferrers?: boolean;
+  /** Whether the backend should accept referrals that close a cycle, for database storage */
+  allowCycles?: boolean;
   [key: string]: unknown;
 }
 
@@ -0,0 +1,185 @@
+/**
+ * Graph walks shared by the storage backends
+ *
+ * Every backend answers descendant and ancestor queries with the same walks,
+ * so traversal order, depths and the handling of shared referrers and cycles
+ * stay identical whichever storage is used. Backends supply lookups for a
+ * user's referrals or referrers, in the order the referrals were added.
+ */
+
+import { UserId, TraversalOptions, TraversalEntry } from '../types/index.js';
+
+/**
+ * An ancestor reached while walking up from a user
+ */
+export interface AncestorEntry {
+  userId: UserId;
+  /** Fewest referrals between the ancestor and the starting user */
+  distance: number;
+  /** The user the ancestor was first reached from */
+  child: UserId;
+}
+
+/**
+ * Iterative BFS/DFS over a user's descendants, so long chains cannot
+ * overflow the call stack; a user reachable from itself through a cycle is
+ * not its own descendant
+ */
+export function* walkDescendants(
+  userId: UserId,
+  childrenOf: (userId: UserId) => readonly UserId[],
+  options: TraversalOptions = {}
+): Generator<TraversalEntry> {
+  const { order = 'bfs', maxDepth = Infinity, limit = Infinity } = options;
+  if (limit <= 0 || maxDepth < 1) {
+    return;
+  }
+
+  const seen = new Set<UserId>([userId]);
+  // BFS reads from the front of the frontier, DFS from the back
+  const frontier: TraversalEntry[] = [];
+  let head = 0;
+  let produced = 0;
+
+  const expand = (parent: UserId, depth: number): void => {
+    const children = childrenOf(parent);
+    if (order === 'dfs') {
+      // Push in reverse so the first child is visited first
+      for (let i = children.length - 1; i >= 0; i--) {
+        const childId = children[i];
+        if (childId !== undefined) {
+          frontier.push({ userId: childId, depth, parent });
+        }
+      }
+    } else {
+      for (const childId of children) {
+        frontier.push({ userId: childId, depth, parent });
+      }
+    }
+  };
+
+  expand(userId, 1);
+
+  while (head < frontier.length) {
+    const entry = order === 'dfs' ? frontier.pop() : frontier[head++];
+    if (!entry || seen.has(entry.userId)) {
+      continue;
+    }
+    seen.add(entry.userId);
+
+    yield entry;
+    if (++produced >= limit) {
+      return;
+    }
+
+    if (entry.depth < maxDepth) {
+      expand(entry.userId, entry.depth + 1);
+    }
+  }
+}
+
+/**
+ * Iterative BFS up through every referrer of a user, nearest ancestors
+ * first; each ancestor is produced once, together with the user it was
+ * first reached from
+ */
+export function* walkAncestors(
+  userId: UserId,
+  parentsOf: (userId: UserId) => readonly UserId[]
+): Generator<AncestorEntry> {
+  const visited = new Set<UserId>([userId]);
+  const queue: AncestorEntry[] = [];
+  for (const parentId of parentsOf(userId)) {
+    visited.add(parentId);
+    queue.push({ userId: parentId, distance: 1, child: userId });
+  }
+
+  // The visited set stops the walk if referrers loop back on themselves
+  for (let head = 0; head < queue.length; head++) {
+    const entry = queue[head];
+    if (!entry) {
+      continue;
+    }
+    yield entry;
+
+    for (const parentId of parentsOf(entry.userId)) {
+      if (!visited.has(parentId)) {
+        visited.add(parentId);
+        queue.push({ userId: parentId, distance: entry.distance + 1, child: entry.userId });
+      }
+    }
+  }
+}
+
+/**
+ * Find the closest ancestor without referrers; if every ancestor has one
+ * (the referrers loop), the furthest ancestor stands in for the root
+ */
+export function nearestRoot(
+  userId: UserId,
+  parentsOf: (userId: UserId) => readonly UserId[]
+): { userId: UserId; distance: number } {
+  let furthest = { userId, distance: 0 };
+  for (const ancestor of walkAncestors(userId, parentsOf)) {
+    if (parentsOf(ancestor.userId).length === 0) {
+      return ancestor;
+    }
+    furthest = ancestor;
+  }
+  return furthest;
+}
+
+/**
+ * Find the nearest user to `b` that is, or is an ancestor of, both users
+ */
+export function lowestCommonAncestor(
+  a: UserId,
+  b: UserId,
+  parentsOf: (userId: UserId) => readonly UserId[]
+): UserId | null {
+  const lineageOfA = new Set([a, ...Array.from(walkAncestors(a, parentsOf), ancestor => ancestor.userId)]);
+  if (lineageOfA.has(b)) {
+    return b;
+  }
+  for (const ancestor of walkAncestors(b, parentsOf)) {
+    if (lineageOfA.has(ancestor.userId)) {
+      return ancestor.userId;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the shortest chain of referrals leading from one user down to another
+ */
+export function referralPath(
+  from: UserId,
+  to: UserId,
+  parentsOf: (userId: UserId) => readonly UserId[]
+): UserId[] | null {
+  if (from === to) {
+    return [to];
+  }
+
+  // Remember which user each ancestor was reached from to rebuild the path
+  const referredVia = new Map<UserId, UserId>();
+  for (const ancestor of walkAncestors(to, parentsOf)) {
+    referredVia.set(ancestor.userId, ancestor.child);
+    if (ancestor.userId !== from) {
+      continue;
+    }
+
+    const path: UserId[] = [from];
+    let current = from;
+    while (current !== to) {
+      const next = referredVia.get(current);
+      if (next === undefined) {
+        return null;
+      }
+      path.push(next);
+      current = next;
+    }
+    return path;
+  }
+  return null;
+}
@@ -0,0 +1,170 @@
+/**
+ * Concurrency stress tests for ReferralNetwork writes
+ *
+ * Fires thousands of conflicting addReferral calls at once, mixed with
+ * removals, reassignments and reads, against a storage that delays every
+ * call by a random number of event-loop turns to widen race windows. The
+ * network's invariants are checked once everything has settled.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReferralNetwork, InMemoryStorage, IReferralStorage, UserId } from './index.js';
+
+const USERS = 200;
+const OPERATIONS = 5000;
+const MAX_REFERRALS_PER_USER = 8;
+const MAX_NETWORK_SIZE = 150;
+
+/**
+ * Deterministic pseudo-random source so failures can be replayed
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 48271) % 2147483647;
+    return state / 2147483647;
+  };
+}
+
+/**
+ * Wrap a storage so each async call resolves after 0-3 event-loop turns
+ */
+function withJitter(storage: IReferralStorage, random: () => number): IReferralStorage {
+  const yieldTurn = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+  return new Proxy(storage, {
+    get(target, property, receiver): unknown {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      return (...args: unknown[]): unknown => {
+        const result = value.apply(target, args);
+        if (!(result instanceof Promise)) {
+          return result;
+        }
+        return (async (): Promise<unknown> => {
+          for (let turns = Math.floor(random() * 4); turns > 0; turns--) {
+            await yieldTurn();
+          }
+          return result;
+        })();
+      };
+    }
+  });
+}
+
+async function runRound(seed: number): Promise<string[]> {
+  const random = seededRandom(seed);
+  const storage = withJitter(new InMemoryStorage(), random);
+  const network = new ReferralNetwork(
+    { maxReferralsPerUser: MAX_REFERRALS_PER_USER, maxNetworkSize: MAX_NETWORK_SIZE },
+    storage
+  );
+  await network.initialize();
+
+  const pick = (): UserId => `u${Math.floor(random() * USERS)}`;
+  // Every referral a call reported writing
+  const written = new Set<string>();
+  const operations: Array<Promise<unknown>> = [];
+
+  for (let i = 0; i < OPERATIONS; i++) {
+    const roll = random();
+    const referrer = pick();
+    const candidate = pick();
+
+    if (roll < 0.85) {
+      operations.push(network.addReferral(referrer, candidate).then(result => {
+        if (result.success) {
+          written.add(`${referrer}:${candidate}`);
+        }
+      }));
+    } else if (roll < 0.9) {
+      operations.push(network.reassignReferrer(candidate, referrer).then(result => {
+        if (result.success) {
+          written.add(`${referrer}:${candidate}`);
+        }
+      }));
+    } else if (roll < 0.93) {
+      operations.push(network.removeUser(candidate, { policy: 'reattach' }).then(result => {
+        if (result.success) {
+          for (const child of result.data.reattached) {
+            written.add(`${result.data.newReferrer}:${child}`);
+          }
+        }
+      }));
+    } else {
+      operations.push(network.allReferrals(referrer));
+    }
+  }
+  await Promise.all(operations);
+
+  return checkInvariants(network, written);
+}
+
+/**
+ * Describe every broken invariant; an empty list means the network is consistent
+ */
+async function checkInvariants(network: ReferralNetwork, written: Set<string>): Promise<string[]> {
+  const violations: string[] = [];
+
+  const usersResult = await network.getAllUsers();
+  const relationshipsResult = await network.getAllReferralRelationships();
+  const componentsResult = await network.stronglyConnectedComponents();
+  if (!usersResult.success || !relationshipsResult.success || !componentsResult.success) {
+    return ['could not read the network'];
+  }
+
+  const users = new Map(usersResult.data.map(user => [user.userId, user]));
+  if (users.size > MAX_NETWORK_SIZE) {
+    violations.push(`${users.size} users exceed the network size limit of ${MAX_NETWORK_SIZE}`);
+  }
+
+  for (const user of users.values()) {
+    if (user.parents.length > 1) {
+      violations.push(`${user.userId} has ${user.parents.length} referrers`);
+    }
+    if (user.directReferrals.length > MAX_REFERRALS_PER_USER) {
+      violations.push(`${user.userId} has ${user.directReferrals.length} referrals`);
+    }
+    for (const childId of user.directReferrals) {
+      if (!users.get(childId)?.parents.includes(user.userId)) {
+        violations.push(`${user.userId} → ${childId} is missing from ${childId}'s referrers`);
+      }
+    }
+    for (const parentId of user.parents) {
+      if (!users.get(parentId)?.directReferrals.includes(user.userId)) {
+        violations.push(`${parentId} → ${user.userId} is missing from ${parentId}'s referrals`);
+      }
+    }
+  }
+
+  for (const component of componentsResult.data) {
+    if (component.length > 1) {
+      violations.push(`cycle through ${component.join(', ')}`);
+    }
+  }
+
+  // Every stored referral must come from a call that reported writing it
+  const relationships = relationshipsResult.data;
+  for (const { referrer, candidate } of relationships) {
+    if (!written.has(`${referrer}:${candidate}`)) {
+      violations.push(`${referrer} → ${candidate} was stored but never reported`);
+    }
+  }
+  const referralCount = Array.from(users.values()).reduce((total, user) => total + user.directReferrals.length, 0);
+  if (relationships.length !== referralCount) {
+    violations.push(`${relationships.length} relationships but ${referralCount} referral links`);
+  }
+
+  return violations;
+}
+
+describe(`${OPERATIONS} concurrent operations on ${USERS} users`, () => {
+  for (const seed of [1, 2, 3, 4, 5]) {
+    it(`keeps the invariants in round ${seed}`, async () => {
+      assert.deepEqual(await runRound(seed), []);
+    });
+  }
+});
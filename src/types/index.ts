@@ -2,6 +2,8 @@
  * Core types and interfaces for the Referral Network system
  */
 
+import type { IReadOnlyReferralStorage } from '../storage/interfaces.js';
+
 /**
  * Represents a user in the referral network
  */
@@ -16,13 +18,34 @@ export interface ReferralRelationship {
   createdAt: Date;
 }
 
+/**
+ * A period during which a user was part of the network
+ */
+export interface UserHistoryEntry {
+  userId: UserId;
+  createdAt: Date;
+  /** When the user was removed, or undefined if it is still present */
+  removedAt?: Date;
+}
+
+/**
+ * A period during which a referral was part of the network
+ */
+export interface ReferralHistoryEntry extends ReferralRelationship {
+  /** When the referral was removed, or undefined if it is still present */
+  removedAt?: Date;
+}
+
 /**
  * Represents a user node in the network with their relationships
  */
 export interface UserNode {
   userId: UserId;
   directReferrals: UserId[];
+  /** The first of the user's referrers */
   parent?: UserId;
+  /** Every referrer of the user, in the order the referrals were added */
+  parents: UserId[];
   createdAt: Date;
 }
 
@@ -35,6 +58,79 @@ export interface ReferralNetworkConfig {
   allowCycles: boolean;
   maxNetworkSize?: number;
   maxReferralsPerUser?: number;
+  /** Rolling-window caps on how many referrals a user may make */
+  referralQuotas?: ReferralQuota[];
+  /** Custom validation rules, run after the built-in constraints */
+  rules?: ReferralRule[];
+  /** Names of rules to skip; change at runtime with updateConfig */
+  disabledRules?: string[];
+  /** Source of the current time (default: the system clock) */
+  clock?: Clock;
+}
+
+/**
+ * At most `limit` referrals by one referrer within any `windowMs` milliseconds
+ */
+export interface ReferralQuota {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Usage of a single quota window by a referrer
+ */
+export interface QuotaWindowStatus {
+  limit: number;
+  windowMs: number;
+  /** Referrals made within the window */
+  used: number;
+  remaining: number;
+  /** When `remaining` next goes up, or null if no counted referral will expire */
+  nextSlotAt: Date | null;
+}
+
+/**
+ * A referrer's allowance across every configured quota window
+ */
+export interface QuotaStatus {
+  user: UserId;
+  /** Referrals the user can make right now, or null if no quotas are configured */
+  remaining: number | null;
+  /** When the user can refer again if a window is exhausted; null if none is, or for a limit of 0 */
+  nextSlotAt: Date | null;
+  windows: QuotaWindowStatus[];
+}
+
+/**
+ * Source of the current time, injectable for tests and replays
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Read-only view of the network passed to validation rules
+ */
+export interface ReferralRuleContext {
+  referrer: UserId;
+  candidate: UserId;
+  storage: IReadOnlyReferralStorage;
+  config: Readonly<ReferralNetworkConfig>;
+  clock: Clock;
+}
+
+/**
+ * A custom referral validation rule
+ * 
+ * Returns null when the referral passes, or the error to reject it with;
+ * use ReferralErrorType.RULE_VIOLATION with a custom code for business rules.
+ */
+export interface ReferralRule {
+  /** Unique name, used in disabledRules */
+  name: string;
+  /** Rules run in ascending order, ties in registration order (default: 0) */
+  order?: number;
+  check: (context: ReferralRuleContext) => Promise<ReferralError | null>;
 }
 
 /**
@@ -43,6 +139,10 @@ export interface ReferralNetworkConfig {
 export interface NetworkStats {
   totalUsers: number;
   totalReferrals: number;
+  /**
+   * Longest chain of referrals; users that refer each other in a cycle
+   * count as a single step
+   */
   maxDepth: number;
   averageReferralsPerUser: number;
 }
@@ -58,7 +158,9 @@ export enum ReferralErrorType {
   REFERRAL_LIMIT = 'REFERRAL_LIMIT',
   USER_NOT_FOUND = 'USER_NOT_FOUND',
   INVALID_INPUT = 'INVALID_INPUT',
-  STORAGE_ERROR = 'STORAGE_ERROR'
+  STORAGE_ERROR = 'STORAGE_ERROR',
+  RULE_VIOLATION = 'RULE_VIOLATION',
+  QUOTA_EXCEEDED = 'QUOTA_EXCEEDED'
 }
 
 /**
@@ -67,16 +169,20 @@ export enum ReferralErrorType {
 export class ReferralError extends Error {
   public readonly type: ReferralErrorType;
   public readonly details?: Record<string, unknown> | undefined;
+  /** Finer-grained code, such as a rule's own code (default: the type) */
+  public readonly code: string;
 
   constructor(
     type: ReferralErrorType,
     message: string,
-    details?: Record<string, unknown> | undefined
+    details?: Record<string, unknown> | undefined,
+    code?: string
   ) {
     super(message);
     this.name = 'ReferralError';
     this.type = type;
     this.details = details;
+    this.code = code ?? type;
     
     // Maintains proper stack trace for where our error was thrown
     if (typeof (Error as any).captureStackTrace === 'function') {
@@ -85,6 +191,172 @@ export class ReferralError extends Error {
   }
 }
 
+/**
+ * A referral edge to be added as part of a batch
+ */
+export interface ReferralEdge {
+  referrer: UserId;
+  candidate: UserId;
+  /** When the referral was made (default: now) */
+  createdAt?: Date;
+}
+
+/**
+ * Options for adding a referral
+ */
+export interface AddReferralOptions {
+  /** When the referral was made, e.g. to backfill history (default: the network clock's now) */
+  createdAt?: Date;
+}
+
+/**
+ * Options for adding a user
+ */
+export interface AddUserOptions {
+  /** When the user joined (default: the network clock's now) */
+  createdAt?: Date;
+}
+
+/**
+ * How a batch of referrals is applied
+ * - 'atomic': all edges are applied, or none are if any edge is rejected
+ * - 'best-effort': valid edges are applied and rejected edges are skipped
+ */
+export type BatchMode = 'atomic' | 'best-effort';
+
+/**
+ * Options for batch referral operations
+ */
+export interface BatchReferralOptions {
+  mode?: BatchMode;
+}
+
+/**
+ * An edge that was rejected within a batch
+ */
+export interface BatchEdgeFailure {
+  index: number;
+  referrer: UserId;
+  candidate: UserId;
+  errorType: ReferralErrorType;
+  error: ReferralError;
+}
+
+/**
+ * Outcome of a batch referral operation
+ */
+export interface BatchReferralReport {
+  mode: BatchMode;
+  /** Whether the applied edges were kept (always true in best-effort mode) */
+  committed: boolean;
+  /** Number of edges present in the network after the batch */
+  applied: number;
+  failures: BatchEdgeFailure[];
+}
+
+/**
+ * Outcome of moving a user (and its subtree) to a new referrer
+ */
+export interface ReassignmentResult {
+  candidate: UserId;
+  /** The candidate's first referrer before the move */
+  previousReferrer: UserId | null;
+  /** Every referrer the candidate had before the move */
+  previousReferrers: UserId[];
+  newReferrer: UserId | null;
+}
+
+/**
+ * What happens to a removed user's direct referrals
+ * - 'orphan': they stay in the network without a referrer
+ * - 'reattach': they are handed to the removed user's referrer
+ * - 'cascade': they are removed together with their whole subtree
+ */
+export type RemovalPolicy = 'orphan' | 'reattach' | 'cascade';
+
+/**
+ * Options for removing a user
+ */
+export interface RemoveUserOptions {
+  policy?: RemovalPolicy;
+}
+
+/**
+ * Users affected by removing a user
+ */
+export interface RemovalReport {
+  policy: RemovalPolicy;
+  /** Users deleted from the network, starting with the removed user */
+  removed: UserId[];
+  /** Former direct referrals left without a referrer */
+  orphaned: UserId[];
+  /** Former direct referrals moved to the removed user's referrer */
+  reattached: UserId[];
+  /** The referrer that received reattached users, if any */
+  newReferrer: UserId | null;
+}
+
+/**
+ * Order in which descendants are visited
+ * - 'bfs': level by level, nearest referrals first
+ * - 'dfs': each referral's whole subtree before the next referral
+ */
+export type TraversalOrder = 'bfs' | 'dfs';
+
+/**
+ * Options for traversing a user's referrals
+ */
+export interface TraversalOptions {
+  order?: TraversalOrder;
+  /** Deepest level to visit; direct referrals are at depth 1 */
+  maxDepth?: number;
+  /** Maximum number of entries to produce */
+  limit?: number;
+}
+
+/**
+ * A descendant visited during a traversal
+ */
+export interface TraversalEntry {
+  userId: UserId;
+  depth: number;
+  parent: UserId;
+}
+
+/**
+ * Options for reading a traversal one page at a time
+ */
+export interface PaginatedTraversalOptions {
+  order?: TraversalOrder;
+  maxDepth?: number;
+  /** Entries per page (default: 100) */
+  pageSize?: number;
+  /** Cursor returned with the previous page; omit for the first page */
+  cursor?: string;
+}
+
+/**
+ * A page of traversal entries
+ */
+export interface TraversalPage {
+  entries: TraversalEntry[];
+  /** Cursor for the next page, or null when the traversal is complete */
+  nextCursor: string | null;
+}
+
+/**
+ * The referral graph with every strongly connected component collapsed
+ * into a single node, which always leaves a DAG
+ */
+export interface Condensation {
+  /** Components in reverse topological order: successors come first */
+  components: UserId[][];
+  /** Index into `components` for every user */
+  componentOf: Map<UserId, number>;
+  /** Distinct components each component refers users into */
+  successors: number[][];
+}
+
 /**
  * Result type for operations that might fail
  */